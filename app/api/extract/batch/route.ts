@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server';
+import { isExtractionEngine, isPageSource, isTableMode, isWebsiteType, parseConfigOverrides, processHtml, processUrl } from '@/app/lib/pipeline';
+import { toErrorResponse, type ErrorBody } from '@/app/lib/errors';
+import { mapWithConcurrency } from '@/app/utils/concurrency';
+import { type CacheStatus } from '@/app/types/cache';
+import { type ExtractResult, type ExtractorConfigOverrides, type WebsiteType } from '@/app/types/extractor';
+
+export const dynamic = 'force-dynamic';
+
+// 单次批量请求的最大条目数
+const MAX_BATCH_SIZE = 500;
+
+// 默认并发数和并发上限
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+
+interface BatchItem {
+  url?: string;
+  html?: string;
+  type?: WebsiteType;
+}
+
+type BatchItemResult =
+  | { index: number; url?: string; ok: true; result: Partial<ExtractResult>; cache?: CacheStatus }
+  | { index: number; url?: string; ok: false; error: { message: string; status?: number } & Partial<Omit<ErrorBody, 'error'>> };
+
+/**
+ * 规范化批量条目,字符串视为URL
+ */
+function normalizeItem(raw: unknown): BatchItem | string {
+  if (typeof raw === 'string') {
+    return raw ? { url: raw } : 'Item must not be an empty string';
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return 'Item must be a URL string or an object with url or html';
+  }
+
+  const { url, html, type } = raw as Record<string, unknown>;
+  if (url !== undefined && typeof url !== 'string') {
+    return 'url must be a string';
+  }
+  if (html !== undefined && typeof html !== 'string') {
+    return 'html must be a string';
+  }
+  if (!url && !html) {
+    return 'Item requires url or html';
+  }
+  if (type !== undefined && !isWebsiteType(type)) {
+    return `Unsupported page type: ${String(type)}`;
+  }
+
+  return { url, html, type };
+}
+
+/**
+ * 批量提取
+ * 请求体: { items: Array<string | { url?, html?, type? }>, format?, tables?, concurrency?, config?, engine?, source? }
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const { items, format = 'markdown', tables = 'gfm', concurrency = DEFAULT_CONCURRENCY, config: rawConfig, engine = 'builtin', source = 'http' } =
+    (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return NextResponse.json(
+      { error: 'items must be a non-empty array' },
+      { status: 400 }
+    );
+  }
+
+  if (items.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `A batch may contain at most ${MAX_BATCH_SIZE} items` },
+      { status: 400 }
+    );
+  }
+
+  if (typeof format !== 'string') {
+    return NextResponse.json(
+      { error: 'format must be a string' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1) {
+    return NextResponse.json(
+      { error: 'concurrency must be a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  if (!isExtractionEngine(engine)) {
+    return NextResponse.json(
+      { error: `Unsupported engine: ${String(engine)}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isTableMode(tables)) {
+    return NextResponse.json(
+      { error: `Unsupported tables mode: ${String(tables)}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isPageSource(source)) {
+    return NextResponse.json(
+      { error: `Unsupported page source: ${String(source)}` },
+      { status: 400 }
+    );
+  }
+
+  let config: ExtractorConfigOverrides | undefined;
+  try {
+    config = parseConfigOverrides(rawConfig);
+  } catch (error) {
+    return NextResponse.json(
+      { error: `Invalid config: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 400 }
+    );
+  }
+
+  const limit = Math.min(concurrency, MAX_CONCURRENCY);
+  console.log('Processing batch:', { size: items.length, format, concurrency: limit });
+
+  // 每个条目独立处理,单条失败不影响其他条目
+  const results = await mapWithConcurrency(items, limit, async (raw, index): Promise<BatchItemResult> => {
+    const item = normalizeItem(raw);
+    if (typeof item === 'string') {
+      return { index, ok: false, error: { message: item } };
+    }
+
+    const url = item.url || '';
+    try {
+      const options = { format, type: item.type, config, engine, tables };
+      if (item.html !== undefined) {
+        const result = await processHtml(item.html, url, options);
+        return { index, url: item.url, ok: true, result };
+      }
+
+      const { output, cache } = await processUrl(url, { ...options, source });
+      return { index, url: item.url, ok: true, result: output, cache };
+    } catch (error) {
+      console.error('Error processing batch item:', index, error);
+      const { status, body: { error: message, ...details } } = toErrorResponse(error);
+      return {
+        index,
+        url: item.url,
+        ok: false,
+        error: { message, status, ...details }
+      };
+    }
+  });
+
+  const succeeded = results.filter(result => result.ok).length;
+
+  return NextResponse.json({
+    results,
+    summary: {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded
+    }
+  });
+}
@@ -1,168 +1,34 @@
 import { NextResponse } from 'next/server';
-import { ExtractorFactory } from '@/app/lib/ExtractorFactory';
-import { type ExtractResult } from '@/app/types/extractor';
-import { load } from 'cheerio';
-import TurndownService from 'turndown';
+import { isArchiveImageMode, isCacheMode, isExtractionEngine, isPageSource, isTableMode, isWebsiteType, parseArchiveData, parseConfigOverrides, parseFetchOptions, processArchive, processHtml, processUrl } from '@/app/lib/pipeline';
+import { toErrorResponse } from '@/app/lib/errors';
+import { type CacheStatus } from '@/app/types/cache';
+import { type ExtractorConfigOverrides } from '@/app/types/extractor';
+import { type RequestFetchOptions } from '@/app/types/fetcher';
 
 export const dynamic = 'force-dynamic';
 
 /**
- * 从HTML中提取纯文本
+ * 生成带缓存状态的响应头
  */
-function extractText(html: string): string {
-  const $ = load(html);
-  
-  // 移除脚本和样式
-  $('script, style, link, meta').remove();
-  
-  // 处理标题
-  $('h1, h2, h3, h4, h5, h6').each((_, elem) => {
-    const $elem = $(elem);
-    $elem.after('\n\n').before('\n\n');
-  });
-  
-  // 处理段落和换行
-  $('p, div').each((_, elem) => {
-    const $elem = $(elem);
-    const text = $elem.text().trim();
-    if (text) {
-      $elem.after('\n\n');
-    }
-  });
-  $('br').replaceWith('\n');
-  
-  // 处理列表
-  $('ul, ol').each((_, list) => {
-    const $list = $(list);
-    $list.before('\n\n');
-    $list.find('li').each((_, li) => {
-      const $li = $(li);
-      $li.before('• ').after('\n');
-    });
-    $list.after('\n');
-  });
-  
-  // 处理表格
-  $('table').each((_, table) => {
-    const $table = $(table);
-    $table.find('tr').each((_, tr) => {
-      const $tr = $(tr);
-      $tr.find('td, th').each((_, cell) => {
-        const $cell = $(cell);
-        $cell.after('\t');
-      });
-      $tr.after('\n');
-    });
-    $table.before('\n\n').after('\n\n');
-  });
-  
-  // 获取文本并清理
-  return $('body')
-    .text()
-    // 清理多余空白
-    .replace(/\s+/g, ' ')
-    // 清理多余换行
-    .replace(/\n\s*\n/g, '\n\n')
-    // 清理行首尾空白
-    .split('\n')
-    .map(line => line.trim())
-    .join('\n')
-    // 清理首尾空白
-    .trim();
-}
-
-/**
- * 将HTML转换为Markdown
- */
-function convertToMarkdown(html: string): string {
-  const turndownService = new TurndownService({
-    headingStyle: 'atx',
-    hr: '---',
-    bulletListMarker: '-',
-    codeBlockStyle: 'fenced',
-    emDelimiter: '*'
-  });
-
-  // 配置转换规则
-  turndownService.addRule('strikethrough', {
-    filter: (node: Node) => {
-      const tagName = (node as HTMLElement).tagName?.toLowerCase();
-      return ['del', 's', 'strike'].includes(tagName);
-    },
-    replacement: (content: string): string => `~~${content}~~`
-  });
-
-  // 保留表格
-  turndownService.keep(['table', 'thead', 'tbody', 'tr', 'th', 'td']);
-  
-  // 保留数学公式和注释
-  turndownService.addRule('math', {
-    filter: (node: Node) => {
-      const tagName = (node as HTMLElement).tagName?.toLowerCase();
-      return ['math', 'semantics', 'annotation'].includes(tagName);
-    },
-    replacement: (content: string, node: Node): string => {
-      const element = node as HTMLElement;
-      return element.outerHTML;
-    }
-  });
-  
-  // 处理图片
-  turndownService.addRule('images', {
-    filter: 'img',
-    replacement: (content: string, node: Node): string => {
-      const img = node as HTMLElement;
-      const alt = img.getAttribute('alt') || '';
-      const src = img.getAttribute('src') || '';
-      const title = img.getAttribute('title');
-      return title
-        ? `![${alt}](${src} "${title}")`
-        : `![${alt}](${src})`;
-    }
-  });
-
-  return turndownService.turndown(html);
+function cacheHeaders(status?: CacheStatus): HeadersInit | undefined {
+  return status ? { 'X-Cache': status } : undefined;
 }
 
 /**
- * 判断网页类型
+ * 读取 POST 请求体
+ * multipart/form-data 中的文件字段读取为字节,其余字段保持字符串
  */
-function detectPageType(url: string, html: string): 'weixin' | 'forum' | 'article' {
-  // 检查URL
-  if (url.includes('mp.weixin.qq.com')) {
-    return 'weixin';
+async function readRequestBody(request: Request): Promise<unknown> {
+  if (!(request.headers.get('content-type') || '').toLowerCase().startsWith('multipart/form-data')) {
+    return request.json();
   }
 
-  const $ = load(html);
-  
-  // 检查论坛特征
-  const forumFeatures = [
-    '.post',
-    '.thread',
-    '.topic',
-    '.forum',
-    '.reply',
-    '.comment-list',
-    '#thread',
-    '#forum'
-  ];
-  
-  for (const selector of forumFeatures) {
-    if ($(selector).length > 0) {
-      return 'forum';
-    }
+  const form = await request.formData();
+  const body: Record<string, unknown> = {};
+  for (const [name, value] of form.entries()) {
+    body[name] = typeof value === 'string' ? value : new Uint8Array(await value.arrayBuffer());
   }
-  
-  // 检查URL中的论坛特征
-  if (url.includes('forum') || 
-      url.includes('bbs') || 
-      url.includes('thread') ||
-      url.includes('topic')) {
-    return 'forum';
-  }
-
-  // 默认为文章
-  return 'article';
+  return body;
 }
 
 export async function GET(request: Request) {
@@ -170,6 +36,11 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const targetUrl = searchParams.get('url');
     const outputFormat = searchParams.get('format') || 'markdown';
+    const engine = searchParams.get('engine') || 'builtin';
+    const tables = searchParams.get('tables') || 'gfm';
+    const debug = ['1', 'true'].includes(searchParams.get('debug') || '');
+    const source = searchParams.get('source') || 'http';
+    const cache = searchParams.get('cache') || 'default';
 
     if (!targetUrl) {
       return NextResponse.json(
@@ -178,108 +49,189 @@ export async function GET(request: Request) {
       );
     }
 
-    console.log('Fetching URL:', targetUrl);
-    
-    // 获取页面内容
-    const response = await fetch(targetUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        'Cache-Control': 'no-cache',
-        'Pragma': 'no-cache',
-        'Sec-Ch-Ua': '"Not_A Brand";v="8", "Chromium";v="120"',
-        'Sec-Ch-Ua-Mobile': '?0',
-        'Sec-Ch-Ua-Platform': '"Windows"',
-        'Sec-Fetch-Dest': 'document',
-        'Sec-Fetch-Mode': 'navigate',
-        'Sec-Fetch-Site': 'cross-site',
-        'Sec-Fetch-User': '?1',
-        'Upgrade-Insecure-Requests': '1'
-      },
-      redirect: 'follow',
-      credentials: 'omit',
-      mode: 'cors',
-      referrerPolicy: 'no-referrer'
-    });
-
-    if (!response.ok) {
-      console.error('Failed to fetch URL:', response.status, response.statusText);
-      throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
-    }
-    
-    const html = await response.text();
-    console.log('HTML content length:', html.length);
-    
-    // 检查HTML内容
-    if (!html || html.length < 100) {
-      throw new Error('Retrieved HTML content is too short or empty');
+    if (!isExtractionEngine(engine)) {
+      return NextResponse.json(
+        { error: `Unsupported engine: ${engine}` },
+        { status: 400 }
+      );
     }
 
-    // 检测页面类型
-    const pageType = detectPageType(targetUrl, html);
-    console.log('Detected page type:', pageType);
-    
-    // 获取对应的提取器
-    const extractor = ExtractorFactory.getExtractor(pageType);
-    console.log('Using extractor:', extractor.constructor.name);
-
-    // 提取内容
-    const result = await extractor.extract(html, targetUrl);
-    console.log('Extraction result:', {
-      hasTitle: !!result.title,
-      contentLength: result.content?.length || 0,
-      textContentLength: result.textContent?.length || 0,
-      metadata: result.metadata
-    });
+    if (!isTableMode(tables)) {
+      return NextResponse.json(
+        { error: `Unsupported tables mode: ${tables}` },
+        { status: 400 }
+      );
+    }
 
-    // 检查提取结果
-    if (!result.content) {
-      throw new Error('No content could be extracted from the page');
+    if (!isPageSource(source)) {
+      return NextResponse.json(
+        { error: `Unsupported page source: ${source}` },
+        { status: 400 }
+      );
     }
 
-    // 根据输出格式处理结果
-    let output: Partial<ExtractResult> = {};
-    
-    switch (outputFormat) {
-      case 'text':
-        // 纯文本输出
-        output = {
-          title: result.title,
-          content: extractText(result.content),
-          textContent: result.textContent,
-          metadata: result.metadata
-        };
-        break;
-        
-      case 'markdown':
-        // Markdown输出
-        output = {
-          title: result.title,
-          content: result.content ? convertToMarkdown(result.content) : '',
-          textContent: result.textContent,
-          metadata: result.metadata
-        };
-        break;
-        
-      default:
-        // HTML输出
-        output = result;
+    if (!isCacheMode(cache)) {
+      return NextResponse.json(
+        { error: `Unsupported cache mode: ${cache}` },
+        { status: 400 }
+      );
     }
 
-    console.log('Final output format:', outputFormat, {
-      hasTitle: !!output.title,
-      contentLength: output.content?.length || 0,
-      textContentLength: output.textContent?.length || 0,
-      metadata: output.metadata
-    });
+    let config: ExtractorConfigOverrides | undefined;
+    try {
+      config = parseConfigOverrides(searchParams.get('config'));
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Invalid config parameter: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json(output);
+    const result = await processUrl(targetUrl, { format: outputFormat, config, engine, tables, debug, source, cache });
+    return NextResponse.json(result.output, { headers: cacheHeaders(result.cache) });
   } catch (error) {
     console.error('Error processing URL:', error);
+    const { status, body } = toErrorResponse(error);
+    return NextResponse.json(body, { status });
+  }
+}
+
+/**
+ * 直接提交HTML或存档进行提取,或由服务端按请求中的抓取选项抓取页面
+ * 请求体: { html?, archive?, images?, url?, format?, tables?, type?, config?, engine?, debug?, source?, cache?, headers?, cookie?, proxy? }
+ * archive 为 MHTML 或 .webarchive 文件,可以通过 multipart/form-data 上传,也可以在JSON中以base64提交
+ * 未提交 html 和 archive 时从 source 加载 url,headers、cookie 和 proxy 只作用于该次抓取
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await readRequestBody(request);
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be valid JSON or multipart/form-data' },
+      { status: 400 }
+    );
+  }
+
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  const { html, archive, images = 'inline', url = '', format = 'markdown', tables = 'gfm', type, config: rawConfig, engine = 'builtin', debug, source = 'http', cache = 'default' } = body as Record<string, unknown>;
+
+  if (html !== undefined && typeof html !== 'string') {
+    return NextResponse.json(
+      { error: 'html must be a string' },
+      { status: 400 }
+    );
+  }
+
+  if (!html && !archive && !url) {
+    return NextResponse.json(
+      { error: 'html, archive or url field is required' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof url !== 'string' || typeof format !== 'string') {
+    return NextResponse.json(
+      { error: 'url and format must be strings' },
+      { status: 400 }
+    );
+  }
+
+  if (type !== undefined && !isWebsiteType(type)) {
+    return NextResponse.json(
+      { error: `Unsupported page type: ${String(type)}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isExtractionEngine(engine)) {
+    return NextResponse.json(
+      { error: `Unsupported engine: ${String(engine)}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isTableMode(tables)) {
+    return NextResponse.json(
+      { error: `Unsupported tables mode: ${String(tables)}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isPageSource(source)) {
+    return NextResponse.json(
+      { error: `Unsupported page source: ${String(source)}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isCacheMode(cache)) {
+    return NextResponse.json(
+      { error: `Unsupported cache mode: ${String(cache)}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isArchiveImageMode(images)) {
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to process URL' },
-      { status: 500 }
+      { error: `Unsupported images mode: ${String(images)}` },
+      { status: 400 }
     );
   }
-} 
\ No newline at end of file
+
+  let archiveData: Uint8Array | undefined;
+  try {
+    archiveData = archive ? parseArchiveData(archive) : undefined;
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  let config: ExtractorConfigOverrides | undefined;
+  try {
+    config = parseConfigOverrides(rawConfig);
+  } catch (error) {
+    return NextResponse.json(
+      { error: `Invalid config: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 400 }
+    );
+  }
+
+  let fetchOptions: RequestFetchOptions;
+  try {
+    fetchOptions = parseFetchOptions(body as Record<string, unknown>);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // multipart 表单中的字段都是字符串
+    const options = { format, type, config, engine, tables, debug: debug === true || debug === 1 || debug === 'true' || debug === '1' };
+    if (archiveData) {
+      console.log('Processing submitted archive:', { url, size: archiveData.byteLength });
+      return NextResponse.json(await processArchive(archiveData, { ...options, url, images }));
+    }
+    if (html) {
+      console.log('Processing submitted HTML:', { url, length: html.length });
+      return NextResponse.json(await processHtml(html, url, options));
+    }
+
+    const result = await processUrl(url, { ...options, source, cache, fetch: fetchOptions });
+    return NextResponse.json(result.output, { headers: cacheHeaders(result.cache) });
+  } catch (error) {
+    console.error('Error processing HTML:', error);
+    const { status, body: errorBody } = toErrorResponse(error);
+    return NextResponse.json(errorBody, { status });
+  }
+}
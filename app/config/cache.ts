@@ -0,0 +1,8 @@
+import { CacheConfig } from '../types/cache';
+
+export const defaultCacheConfig: CacheConfig = {
+  enabled: process.env.CACHE_DISABLED !== '1',
+  ttl: Number(process.env.CACHE_TTL_SECONDS) || 3600,
+  maxEntries: Number(process.env.CACHE_MAX_ENTRIES) || 500,
+  dir: process.env.CACHE_DIR || undefined
+};
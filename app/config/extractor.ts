@@ -1,4 +1,4 @@
-import { ExtractorConfig } from '../types/extractor';
+import { DeepPartial, ExtractorConfig } from '../types/extractor';
 
 export const defaultConfig: ExtractorConfig = {
   // 通用选择器
@@ -102,6 +102,8 @@ export const defaultConfig: ExtractorConfig = {
     // 保留的属性
     keepAttributes: [
       'src',
+      'srcset',
+      'poster',
       'href',
       'alt',
       'title',
@@ -109,6 +111,9 @@ export const defaultConfig: ExtractorConfig = {
       'pubdate',
       'width',
       'height',
+      'colspan',
+      'rowspan',
+      'start',
       'loading',
       'rel',
       'target',
@@ -255,4 +260,32 @@ export const defaultConfig: ExtractorConfig = {
     // 最小图片数
     minImages: 1,
   },
-}; 
\ No newline at end of file
+};
+
+/**
+ * 深度合并配置,数组整体替换而不是逐项合并
+ * @param base 基础配置
+ * @param overrides 覆盖项
+ * @returns 合并后的新配置,不修改传入的对象
+ */
+export function mergeConfig<T extends object>(base: T, overrides: DeepPartial<T> = {}): T {
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+    const current = result[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      result[key] = mergeConfig(current, value);
+    } else {
+      result[key] = value;
+    }
+  }
+  
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,46 @@
+import { FetchConfig } from '../types/fetcher';
+
+/**
+ * 从环境变量读取正整数配置
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * 从环境变量读取逗号分隔的列表
+ */
+function envList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+export const defaultFetchConfig: FetchConfig = {
+  timeout: envNumber('FETCH_TIMEOUT_MS', 15000),
+  maxBytes: envNumber('FETCH_MAX_BYTES', 10 * 1024 * 1024),
+  retries: envNumber('FETCH_RETRIES', 2),
+  retryDelay: 500,
+  maxRetryDelay: 5000,
+  maxRedirects: 10,
+  allowedHosts: envList('FETCH_ALLOWED_HOSTS'),
+  deniedHosts: envList('FETCH_DENIED_HOSTS'),
+  allowedProxies: envList('FETCH_ALLOWED_PROXIES'),
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+    'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
+    'Cache-Control': 'no-cache',
+    'Pragma': 'no-cache',
+    'Sec-Ch-Ua': '"Not_A Brand";v="8", "Chromium";v="120"',
+    'Sec-Ch-Ua-Mobile': '?0',
+    'Sec-Ch-Ua-Platform': '"Windows"',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-Site': 'cross-site',
+    'Sec-Fetch-User': '?1',
+    'Upgrade-Insecure-Requests': '1'
+  }
+};
@@ -0,0 +1,135 @@
+import { PageStateRule } from '../types/extractor';
+
+// 错误页识别规则,按顺序匹配,平台规则排在通用规则之前
+export const defaultPageStateRules: PageStateRule[] = [
+  // 微信公众号
+  {
+    state: 'deleted',
+    hosts: ['mp.weixin.qq.com'],
+    markers: [
+      '该内容已被发布者删除',
+      '此内容因违规无法查看',
+      '此内容被多人投诉',
+      '该公众号已迁移',
+      '此帐号已被屏蔽',
+      '此帐号已自主注销',
+    ],
+    maxTextLength: 3000,
+  },
+  {
+    state: 'captcha',
+    hosts: ['mp.weixin.qq.com'],
+    markers: ['环境异常', '完成验证后即可继续访问'],
+    maxTextLength: 3000,
+  },
+  {
+    state: 'not_found',
+    hosts: ['mp.weixin.qq.com'],
+    markers: ['链接已过期', '参数错误'],
+    maxTextLength: 1000,
+  },
+
+  // 知乎
+  {
+    state: 'captcha',
+    hosts: ['*.zhihu.com'],
+    selectors: ['.Unhuman', '#Unhuman'],
+    markers: ['系统监测到您的网络环境存在异常', '请进行安全验证'],
+    maxTextLength: 3000,
+  },
+  {
+    state: 'deleted',
+    hosts: ['*.zhihu.com'],
+    markers: ['该内容已被删除', '该回答已被删除', '该文章已被删除', '该问题已被删除'],
+    maxTextLength: 3000,
+  },
+  {
+    state: 'not_found',
+    hosts: ['*.zhihu.com'],
+    markers: ['你似乎来到了没有知识存在的荒原'],
+    maxTextLength: 3000,
+  },
+  {
+    state: 'login_required',
+    hosts: ['*.zhihu.com'],
+    markers: ['登录知乎', '登录后查看', '验证码登录'],
+    maxTextLength: 500,
+  },
+
+  // Discuz 等论坛程序
+  {
+    state: 'login_required',
+    markers: [
+      '您需要登录后才可以',
+      '抱歉，您尚未登录，没有权限',
+      '没有权限访问该版块',
+      '本帖隐藏的内容需要',
+      '请登录后查看',
+      '请登录后再查看',
+    ],
+    maxTextLength: 2000,
+  },
+  {
+    state: 'deleted',
+    markers: [
+      '指定的主题不存在或已被删除',
+      '该帖子已被删除',
+      '该帖已被删除',
+      '帖子已被屏蔽',
+    ],
+    maxTextLength: 2000,
+  },
+
+  // 通用验证码和人机验证
+  {
+    state: 'captcha',
+    selectors: [
+      '.g-recaptcha',
+      '.h-captcha',
+      '#cf-challenge-running',
+      '#challenge-form',
+      '.cf-turnstile',
+      'iframe[src*="captcha"]',
+      '#nc_1_wrapper',
+    ],
+    markers: [
+      'Checking your browser before accessing',
+      'Verify you are human',
+      'Please complete the security check',
+      '请完成安全验证',
+      '人机验证',
+      '请输入验证码',
+      '拖动下方滑块完成拼图',
+    ],
+    titleMarkers: ['Just a moment...', 'Attention Required!', '安全验证', '验证码'],
+    maxTextLength: 600,
+  },
+
+  // 通用登录墙
+  {
+    state: 'login_required',
+    markers: [
+      'Please log in to continue',
+      'Please sign in to continue',
+      'You must be logged in',
+      '登录后查看全文',
+      '登录后可查看',
+    ],
+    maxTextLength: 300,
+  },
+
+  // 通用软404和已删除页面,正常文章也可能引用这些提示语,只在页面几乎没有其他文字时匹配
+  {
+    state: 'not_found',
+    markers: ['页面不存在', '页面未找到', '您访问的页面不存在', 'Page not found', 'The page you requested could not be found'],
+    titleMarkers: ['页面不存在', '页面未找到', '找不到页面'],
+    // "404" 和 "Not Found" 只在构成标题中以分隔符隔开的一整段时匹配,如 "404 - Page Not Found | Example"
+    titlePatterns: [/(?:^|[|\-–—·_])\s*(?:(?:Error\s+)?404(?:\s+(?:Error|Not Found|Page Not Found))?|(?:Page\s+)?Not Found)\s*(?:$|[|\-–—·_!.])/i],
+    maxTextLength: 300,
+  },
+  {
+    state: 'deleted',
+    markers: ['This content is no longer available', 'This post has been deleted', 'This page has been removed'],
+    maxTextLength: 300,
+  },
+];
@@ -0,0 +1,67 @@
+import { SiteRule } from '../types/extractor';
+
+// 内置站点规则,可通过 SiteRuleRegistry 注册更多规则
+export const defaultSiteRules: SiteRule[] = [
+  // CSDN博客
+  {
+    name: 'csdn',
+    hosts: ['blog.csdn.net'],
+    type: 'article',
+    contentSelectors: ['#content_views', 'article.baidu_pl'],
+    removeSelectors: [
+      '#content_views .pre-numbering',
+      '.article-copyright',
+    ],
+    titleSelectors: ['#articleContentId', 'h1.title-article'],
+    metadata: {
+      author: ['.follow-nickName', '.profile-name'],
+      publishTime: ['.article-bar-top .time'],
+    },
+  },
+  
+  // 简书
+  {
+    name: 'jianshu',
+    hosts: ['*.jianshu.com'],
+    type: 'article',
+    contentSelectors: ['article', '.show-content'],
+    removeSelectors: [
+      '.collapse-tips',
+      '.support-author',
+    ],
+    titleSelectors: ['h1.title', 'h1'],
+  },
+  
+  // 知乎
+  {
+    name: 'zhihu',
+    hosts: ['*.zhihu.com'],
+    type: 'article',
+    contentSelectors: ['.Post-RichText', '.RichContent-inner'],
+    removeSelectors: [
+      '.ContentItem-actions',
+      '.Reward',
+    ],
+    titleSelectors: ['.Post-Title', '.QuestionHeader-title'],
+    metadata: {
+      author: ['.AuthorInfo-name'],
+    },
+  },
+  
+  // 微信公众号文章
+  {
+    name: 'weixin',
+    hosts: ['mp.weixin.qq.com'],
+    type: 'weixin',
+    contentSelectors: ['#js_content'],
+    removeSelectors: [
+      '#js_pc_qr_code',
+      '.qr_code_pc_outer',
+    ],
+    titleSelectors: ['#activity-name'],
+    metadata: {
+      author: ['#js_name'],
+      publishTime: ['#publish_time'],
+    },
+  },
+];
@@ -1,74 +1,84 @@
 import * as cheerio from 'cheerio';
 import { type CheerioAPI, type CheerioNode, type CheerioElement, type AnyNode, asCheerioNode, asElement } from '../types/cheerio';
-import { ExtractResult, ExtractorOptions, CONTENT_SELECTORS, NOISE_SELECTORS } from '../types/extractor';
-import { calculateTextLength, cleanHtml, scoreElement } from '../utils/extractor';
+import { ContentStrategy, ExtractResult, ExtractRunOptions, ExtractionCandidate, HydrationCandidate, ExtractorConfig, ExtractorConfigOverrides, ExtractorOptions, ExtractionContext, CONTENT_SELECTORS, NOISE_SELECTORS } from '../types/extractor';
+import { defaultConfig, mergeConfig } from '../config/extractor';
+import { calculateTextLength, cleanHtml, getNodePath, scoreElement } from '../utils/extractor';
 import { TitleExtractor } from './extractors/TitleExtractor';
+import { SiteRuleRegistry } from './SiteRuleRegistry';
+import { ReadabilityPlus } from '../utils/readability_plus';
+import { absolutizeUrls, getBaseUrl } from '../utils/url';
+import { extractHydrationCandidates } from '../utils/hydration';
+import { normalizeCodeBlocks } from '../utils/code';
+import { escapeHtml } from '../utils/format';
 
-// 标签权重配置
-const TAG_WEIGHTS: { [key: string]: number } = {
-  article: 10,
-  main: 8,
-  section: 6,
-  div: 4,
-  p: 3,
-  pre: 3,
-  code: 3,
-  blockquote: 2,
-  figure: 2,
-  table: 2,
-};
+// 文本中的LaTeX公式: $$...$$、$...$、\begin{equation}...\end{equation} 和 \begin{align}...\end{align}
+const LATEX_PATTERN = /\$\$([^$]+)\$\$|\$([^$]+)\$|\\begin\{(equation|align)\}([\s\S]*?)\\end\{\3\}/g;
 
-// 正面类名权重
-const POSITIVE_CLASS_WEIGHTS: { [key: string]: number } = {
-  article: 8,
-  content: 8,
-  post: 6,
-  entry: 6,
-  text: 4,
-  body: 4,
-};
+// 其中的文字不做公式处理的标签
+const CODE_TAGS = new Set(['pre', 'code']);
 
-// 负面类名权重
-const NEGATIVE_CLASS_WEIGHTS: { [key: string]: number } = {
-  sidebar: -8,
-  comment: -6,
-  advertisement: -8,
-  ad: -8,
-  nav: -6,
-  footer: -6,
-  header: -4,
+// 各选取策略的基础置信度
+const STRATEGY_CONFIDENCE: Record<ContentStrategy, number> = {
+  'site-rule': 0.95,
+  'custom-selector': 0.85,
+  'xpath': 0.75,
+  'selector': 0.75,
+  'readability-plus': 0.65,
+  'hydration': 0.6,
+  'heuristic': 0.55,
+  'body': 0.1,
 };
 
-// 需要保留的属性
-const KEEP_ATTRIBUTES = [
-  'src',
-  'href',
-  'title',
-  'alt',
-  'class',
-  'id',
-  'name',
-  'content',
-  'data-src',
-  'data-original',
-];
+// 没有文本内容但需要保留的媒体标签
+const VOID_MEDIA_TAGS = 'img, video, audio, iframe, source, embed, br, hr';
+
+// 正文中不会出现可见内容的标签,后处理时直接移除
+const NON_CONTENT_TAGS = 'script, style, noscript, template, head, meta, link, input, textarea, select, button, frame, frameset';
+
+// 媒体内嵌元素属于正文,不按配置的标签清理
+const MEDIA_EMBED_TAGS = new Set(['iframe', 'video', 'audio', 'embed', 'object']);
+
+// 正文所在的区域,配置的清理规则不作用于其中的元素
+const CONTENT_REGION_SELECTORS = ['article', 'main', '[itemprop="articleBody"]'];
+
+// 配置中合法的标签名和类名,其他值拼入选择器会导致解析失败
+export const TAG_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9-]*$/;
+export const CLASS_NAME_PATTERN = /^-?[_a-zA-Z][_a-zA-Z0-9-]*$/;
+
+// 调试模式下返回的候选节点数量
+const DEBUG_CANDIDATE_COUNT = 5;
+
+// 客户端状态中的候选正文至少是 DOM 选出内容的多少倍时改用候选
+const HYDRATION_PREFERENCE_RATIO = 2;
 
 export class BaseExtractor {
   protected options: Required<ExtractorOptions>;
-  protected $!: CheerioAPI;
+  protected config: ExtractorConfig;
   private titleExtractor: TitleExtractor;
-  private droppedNodes: Set<CheerioNode>;
   
-  constructor(options: ExtractorOptions = {}) {
+  /**
+   * @param options 提取器自身的参数
+   * @param config 配置覆盖项,深度合并到 defaultConfig 之上;其中的阈值优先于 options
+   */
+  constructor(options: ExtractorOptions = {}, config: ExtractorConfigOverrides = {}) {
+    this.config = mergeConfig(defaultConfig, config);
     this.options = {
-      minTextLength: 25,
+      minTextLength: this.config.thresholds.minTextLength,
       retryLength: 250,
       includeComments: false,
-      minScore: 20,
+      minScore: this.config.thresholds.minScore,
       ...options
     };
+    
+    // 显式传入的阈值覆盖提取器默认值
+    if (config.thresholds?.minTextLength !== undefined) {
+      this.options.minTextLength = config.thresholds.minTextLength;
+    }
+    if (config.thresholds?.minScore !== undefined) {
+      this.options.minScore = config.thresholds.minScore;
+    }
+    
     this.titleExtractor = new TitleExtractor();
-    this.droppedNodes = new Set();
   }
   
   /**
@@ -80,27 +90,36 @@ export class BaseExtractor {
   
   /**
    * 提取内容
+   * 提取器实例本身不保存任何提取状态,可被并发请求共享
+   *
+   * 生命周期: 加载(读取客户端状态) → preProcess → cleanDocument → 标题 → 主要内容 → postProcess → 元数据
    */
-  public async extract(html: string, url: string): Promise<ExtractResult> {
-    this.$ = cheerio.load(html, {
-      normalizeWhitespace: true,
-      decodeEntities: true
-    });
+  public async extract(html: string, url: string, runOptions: ExtractRunOptions = {}): Promise<ExtractResult> {
+    // 加载文档
+    const ctx = this.createContext(html, url);
+    
+    // 预处理
+    this.preProcess(ctx);
     
     // 清理文档
-    this.cleanDocument();
+    this.cleanDocument(ctx);
     
     // 提取标题
-    const title = this.extractTitle();
+    const title = this.extractTitle(ctx);
     
     // 提取主要内容
-    const mainContent = this.extractMainContent();
+    const mainContent = this.extractMainContent(ctx);
+    const selector = ctx.selector || getNodePath(ctx.$, mainContent);
+    const confidence = this.calculateConfidence(ctx, mainContent);
+    
+    // 调试模式下记录得分最高的候选节点,需在后处理修改文档之前计算
+    const candidates = runOptions.debug ? this.collectCandidates(ctx, DEBUG_CANDIDATE_COUNT) : undefined;
     
     // 后处理
-    this.postProcess(mainContent);
+    this.postProcess(ctx, mainContent);
     
     // 获取处理后的内容
-    const $content = this.$(asElement(mainContent));
+    const $content = ctx.$(asElement(mainContent));
     const content = $content.html() || '';
     const textContent = $content.text().trim();
     
@@ -109,42 +128,160 @@ export class BaseExtractor {
       content,
       textContent,
       html,
-      url
+      url,
+      metadata: {
+        ...this.extractMetadata(ctx),
+        ...this.extractSiteRuleMetadata(ctx),
+        engine: 'builtin',
+        strategy: ctx.strategy,
+        selector,
+        confidence,
+        ...(candidates ? { debug: { candidates, hydration: this.describeHydrationCandidates(ctx) } } : {})
+      }
+    };
+  }
+  
+  /**
+   * 创建单次提取的上下文
+   */
+  protected createContext(html: string, url: string): ExtractionContext {
+    const original = cheerio.load(html);
+    return {
+      // 不折叠空白,代码块中的换行和缩进需要原样保留
+      $: cheerio.load(html, {
+        decodeEntities: true
+      }),
+      original,
+      url,
+      baseUrl: getBaseUrl(original, url),
+      droppedNodes: new Set(),
+      siteRule: SiteRuleRegistry.match(url),
+      strategy: 'body',
+      // 脚本会在预处理中被移除,需在此之前读取
+      hydrationCandidates: extractHydrationCandidates(original, this.options.minTextLength)
     };
   }
   
+  /**
+   * 预处理,在清理文档之前执行,子类按平台重写
+   */
+  protected preProcess(ctx: ExtractionContext): void {
+    // 移除站点规则指定的元素
+    ctx.siteRule?.removeSelectors?.forEach(selector => {
+      ctx.$(selector).remove();
+    });
+  }
+  
+  /**
+   * 提取元数据,子类按平台重写
+   * 预处理和清理可能会移除作者、时间等节点,元数据应从 ctx.original 读取
+   */
+  protected extractMetadata(_ctx: ExtractionContext): ExtractResult['metadata'] {
+    return {};
+  }
+  
+  /**
+   * 按站点规则提取元数据,优先于提取器自身的结果
+   */
+  private extractSiteRuleMetadata(ctx: ExtractionContext): ExtractResult['metadata'] {
+    const metadata: NonNullable<ExtractResult['metadata']> = {};
+    const selectors = ctx.siteRule?.metadata;
+    if (!selectors) {
+      return metadata;
+    }
+    
+    const readFirst = (list: string[] = []): string => {
+      for (const selector of list) {
+        const $elem = ctx.original(selector).first();
+        const value = ($elem.attr('content') || $elem.attr('datetime') || $elem.text()).trim();
+        if (value) {
+          return value;
+        }
+      }
+      return '';
+    };
+    
+    const author = readFirst(selectors.author);
+    if (author) {
+      metadata.author = author;
+    }
+    const publishTime = readFirst(selectors.publishTime);
+    if (publishTime) {
+      metadata.publishTime = publishTime;
+    }
+    
+    return metadata;
+  }
+  
   /**
    * 清理文档
    */
-  protected cleanDocument(): void {
+  protected cleanDocument(ctx: ExtractionContext): void {
     // 移除噪音节点
-    this.removeNoiseNodes();
+    this.removeNoiseNodes(ctx);
     // 清理空节点
-    this.cleanEmptyNodes();
+    this.cleanEmptyNodes(ctx);
     // 规范化内容
-    this.normalizeContent();
+    this.normalizeContent(ctx);
   }
   
-  protected removeNoiseNodes(): void {
+  protected removeNoiseNodes(ctx: ExtractionContext): void {
     // 移除通用噪音
     NOISE_SELECTORS.forEach(selector => {
-      this.$(selector).each((_: number, elem: CheerioElement) => {
+      ctx.$(selector).each((_: number, elem: CheerioElement) => {
         const node = asCheerioNode(elem);
-        if (!this.shouldKeepNode(node)) {
-          this.removeNode(node);
+        if (!this.shouldKeepNode(ctx, node)) {
+          this.removeNode(ctx, node);
         }
       });
     });
 
+    // 移除配置中指定的标签和类名
+    this.removeConfiguredNoise(ctx);
+
     // 移除隐藏元素
-    this.$('[style*="display: none"], [style*="visibility: hidden"]').remove();
+    ctx.$('[style*="display: none"], [style*="visibility: hidden"]').remove();
     
     // 移除空的或无意义的元素
-    this.$('div:empty, p:empty, span:empty').remove();
+    ctx.$('div:empty, p:empty, span:empty').remove();
   }
   
-  protected shouldKeepNode(node: CheerioNode): boolean {
-    const $ = this.$;
+  /**
+   * 按配置的 removeTags/removeClasses 移除正文区域之外的噪音
+   * 正文区域(article、main、提取器和站点规则的正文选择器)中的元素和媒体内嵌元素保留,
+   * 包含图片、视频或较长正文的元素同样保留
+   */
+  protected removeConfiguredNoise(ctx: ExtractionContext): void {
+    const { removeTags, removeClasses } = this.config.clean;
+    const selector = [
+      ...removeTags.filter(tag => TAG_NAME_PATTERN.test(tag) && !MEDIA_EMBED_TAGS.has(tag.toLowerCase())),
+      ...removeClasses.filter(className => CLASS_NAME_PATTERN.test(className)).map(className => `.${className}`)
+    ].join(', ');
+    if (!selector) {
+      return;
+    }
+
+    const regions = [
+      ...CONTENT_REGION_SELECTORS,
+      ...this.getCustomSelectors(),
+      ...(ctx.siteRule?.contentSelectors || [])
+    ].join(', ');
+
+    // 只清理 body 中的元素,head 中的标题和 meta 标签在提取标题时仍要使用
+    ctx.$('body').find(selector).each((_: number, elem: CheerioElement) => {
+      const $elem = ctx.$(elem);
+      if ($elem.closest(regions).length || $elem.find(regions).length) {
+        return;
+      }
+      const node = asCheerioNode(elem);
+      if (!this.shouldKeepNode(ctx, node)) {
+        this.removeNode(ctx, node);
+      }
+    });
+  }
+
+  protected shouldKeepNode(ctx: ExtractionContext, node: CheerioNode): boolean {
+    const { $ } = ctx;
     const $node = $(asElement(node));
     
     // 检查是否包含重要内容
@@ -157,141 +294,270 @@ export class BaseExtractor {
     if (text.length > this.options.minTextLength) {
       const linkText = $node.find('a').text().trim();
       const linkDensity = linkText.length / text.length;
-      return linkDensity < 0.5;
+      return linkDensity < this.config.thresholds.maxLinkDensity;
     }
 
     return false;
   }
   
-  protected cleanEmptyNodes(): void {
-    const $ = this.$;
+  protected cleanEmptyNodes(ctx: ExtractionContext): void {
+    const { $ } = ctx;
     
-    $('*').each(function(this: AnyNode) {
+    // 只清理body内的节点,保留head中的meta供标题提取使用
+    $('body *').each(function(this: AnyNode) {
       const $elem = $(this);
+      // 代码块中只含空白的高亮标签承载着缩进
+      if ($elem.parents('pre').length) {
+        return;
+      }
       const text = $elem.text().trim();
       
-      if (!text && !$elem.find('img, video, iframe').length) {
+      if (!text && !$elem.is(VOID_MEDIA_TAGS) && !$elem.find('img, video, iframe').length) {
         $elem.remove();
       }
     });
   }
   
-  protected normalizeContent(): void {
-    const $ = this.$;
+  protected normalizeContent(ctx: ExtractionContext): void {
+    const { $ } = ctx;
     
-    // 规范化空白字符
-    $('*').contents().each(function(this: AnyNode) {
+    // 规范化空白字符,代码块除外
+    // 不去除首尾空白,否则行内元素(链接、行内代码等)与两侧文字会粘连
+    $('*:not(pre, pre *)').contents().each(function(this: AnyNode) {
       const node = asCheerioNode(this);
       if ('type' in node && node.type === 'text' && 'data' in node) {
         const text = $(this).text();
-        node.data = text.replace(/\s+/g, ' ').trim();
+        node.data = text.replace(/\s+/g, ' ');
       }
     });
     
     // 合并相邻的文本节点
-    $('*').contents().each(function(this: AnyNode) {
+    $('*:not(pre, pre *)').contents().each(function(this: AnyNode) {
       const node = asCheerioNode(this);
       if (node.next && 'type' in node && node.type === 'text' && 
           'type' in node.next && node.next.type === 'text' &&
           'data' in node && 'data' in node.next) {
         node.data = `${node.data} ${node.next.data}`.trim();
-        if (node.next.parent) {
-          const parent = asElement(node.next.parent);
-          $(parent).find(`*:contains("${node.next.data}")`).first().remove();
-        }
+        $(asElement(node.next)).remove();
       }
     });
   }
   
-  protected extractTitle(): string {
-    return this.titleExtractor.extract(this.$);
+  protected extractTitle(ctx: ExtractionContext): string {
+    // 优先使用站点规则的标题选择器
+    for (const selector of ctx.siteRule?.titleSelectors || []) {
+      const text = ctx.original(selector).first().text().trim();
+      if (text) {
+        return text;
+      }
+    }
+    
+    return this.titleExtractor.extract(ctx.$);
   }
   
-  protected extractMainContent(): CheerioNode {
+  /**
+   * 选取主要内容
+   * 站点规则之外的结果还会与客户端状态中的正文候选比较
+   */
+  protected extractMainContent(ctx: ExtractionContext): CheerioNode {
+    const node = this.extractMainContentFromDom(ctx);
+    return ctx.strategy === 'site-rule' ? node : this.preferHydrationContent(ctx, node);
+  }
+
+  /**
+   * 按站点规则、XPath、选择器和评分从文档中选取主要内容
+   */
+  protected extractMainContentFromDom(ctx: ExtractionContext): CheerioNode {
+    // 0. 优先使用站点规则的正文选择器
+    for (const selector of ctx.siteRule?.contentSelectors || []) {
+      const element = ctx.$(selector);
+      if (element.length && element.first().text().trim()) {
+        ctx.strategy = 'site-rule';
+        ctx.selector = selector;
+        return asCheerioNode(element.get(0) as CheerioElement);
+      }
+    }
+    
     // 1. 尝试使用XPath提取
-    const xpathResult = this.extractByXPath();
+    const xpathResult = this.extractByXPath(ctx);
     if (xpathResult) {
+      ctx.strategy = 'xpath';
       return xpathResult;
     }
     
     // 2. 尝试使用自定义选择器
     const customSelectors = this.getCustomSelectors();
     for (const selector of customSelectors) {
-      const element = this.$(selector);
-      if (element.length && this.isValidContent(asCheerioNode(element.get(0) as CheerioElement))) {
+      const element = ctx.$(selector);
+      if (element.length && this.isValidContent(ctx, asCheerioNode(element.get(0) as CheerioElement))) {
+        ctx.strategy = 'custom-selector';
+        ctx.selector = selector;
         return asCheerioNode(element.get(0) as CheerioElement);
       }
     }
     
     // 3. 尝试使用通用选择器
     for (const selector of CONTENT_SELECTORS) {
-      const element = this.$(selector);
-      if (element.length && this.isValidContent(asCheerioNode(element.get(0) as CheerioElement))) {
+      const element = ctx.$(selector);
+      if (element.length && this.isValidContent(ctx, asCheerioNode(element.get(0) as CheerioElement))) {
+        ctx.strategy = 'selector';
+        ctx.selector = selector;
         return asCheerioNode(element.get(0) as CheerioElement);
       }
     }
     
-    // 4. 使用启发式算法查找最佳节点
-    const bestNode = this.findBestNode();
+    // 4. 使用 ReadabilityPlus 对候选节点排序
+    const rankedNode = new ReadabilityPlus(ctx.$, {
+      minTextLength: this.options.minTextLength,
+      minScore: this.options.minScore
+    }).parse();
+    if (rankedNode && this.isValidContent(ctx, rankedNode)) {
+      ctx.strategy = 'readability-plus';
+      return rankedNode;
+    }
+    
+    // 5. 使用启发式算法查找最佳节点
+    const bestNode = this.findBestNode(ctx);
     if (bestNode) {
+      ctx.strategy = 'heuristic';
       return bestNode;
     }
     
-    // 5. 如果都失败了,返回body
-    return asCheerioNode(this.$('body').get(0) as CheerioElement);
+    // 6. 如果都失败了,返回body
+    ctx.strategy = 'body';
+    return asCheerioNode(ctx.$('body').get(0) as CheerioElement);
   }
   
+  /**
+   * 正文由客户端渲染的页面,服务端HTML中只有空壳或摘要
+   * 状态中的候选正文明显长于 DOM 选出的内容时,将候选插入文档并作为主要内容
+   */
+  protected preferHydrationContent(ctx: ExtractionContext, node: CheerioNode): CheerioNode {
+    const [candidate] = ctx.hydrationCandidates;
+    if (!candidate) {
+      return node;
+    }
+
+    const domLength = ctx.strategy === 'body' ? 0 : calculateTextLength(ctx.$, node);
+    if (candidate.textLength < domLength * HYDRATION_PREFERENCE_RATIO) {
+      return node;
+    }
+
+    const $container = ctx.$('<div class="hydration-content"></div>').html(candidate.html);
+    ctx.$('body').append($container);
+    ctx.strategy = 'hydration';
+    ctx.selector = `${candidate.source}:${candidate.path}`;
+    return asCheerioNode($container.get(0) as CheerioElement);
+  }
+
+  /**
+   * 调试模式下返回的客户端状态候选,不包含正文
+   */
+  private describeHydrationCandidates(ctx: ExtractionContext): Omit<HydrationCandidate, 'html'>[] {
+    return ctx.hydrationCandidates.map(({ source, path, textLength }) => ({ source, path, textLength }));
+  }
+
   protected getCustomSelectors(): string[] {
     return [];
   }
   
+  /**
+   * 计算提取结果的置信度(0-1)
+   * 以选取策略的可靠程度为基础,再按正文长度和链接密度调整
+   */
+  protected calculateConfidence(ctx: ExtractionContext, node: CheerioNode): number {
+    const { $ } = ctx;
+    const base = STRATEGY_CONFIDENCE[ctx.strategy];
+    
+    const textLength = calculateTextLength($, node);
+    const linkLength = $(asElement(node)).find('a').text().trim().length;
+    const linkDensity = Math.min(linkLength / (textLength || 1), 1);
+    
+    // 正文达到最小长度的4倍时不再扣分
+    const lengthFactor = Math.min(textLength / (this.options.minTextLength * 4 || 1), 1);
+    const confidence = base * (0.5 + 0.5 * lengthFactor) * (1 - 0.5 * linkDensity);
+    
+    return Math.round(Math.max(0, Math.min(confidence, 1)) * 100) / 100;
+  }
+  
+  /**
+   * 收集得分最高的候选节点及其评分明细
+   */
+  protected collectCandidates(ctx: ExtractionContext, limit: number): ExtractionCandidate[] {
+    const { $ } = ctx;
+    const candidates: ExtractionCandidate[] = [];
+    
+    $('div, article, section, main').each((_: number, element: CheerioElement) => {
+      const node = asCheerioNode(element);
+      const textLength = calculateTextLength($, node);
+      if (!textLength) {
+        return;
+      }
+      
+      const linkLength = $(element).find('a').text().trim().length;
+      candidates.push({
+        path: getNodePath($, node),
+        tagName: element.tagName.toLowerCase(),
+        nodeScore: this.calculateNodeScore(ctx, node),
+        contentScore: Math.round(this.calculateContentScore(ctx, node) * 100) / 100,
+        textLength,
+        linkDensity: Math.round(linkLength / textLength * 100) / 100
+      });
+    });
+    
+    return candidates
+      .sort((a, b) => b.contentScore - a.contentScore)
+      .slice(0, limit);
+  }
+  
   /**
    * 计算节点得分
    */
-  protected calculateNodeScore(node: CheerioNode): number {
+  protected calculateNodeScore(ctx: ExtractionContext, node: CheerioNode): number {
     if (!node.tagName) return 0;
-    const $ = this.$;
+    const { $ } = ctx;
     const $node = $(asElement(node));
     let score = 0;
 
+    const { weights, thresholds } = this.config;
+
     // 1. 标签权重
     const tagName = node.tagName.toLowerCase();
-    score += TAG_WEIGHTS[tagName] || 0;
+    score += weights.tags[tagName] || 0;
 
     // 2. 类名权重
     const classNames = $node.attr('class')?.split(/\s+/) || [];
     for (const className of classNames) {
       const lowerClassName = className.toLowerCase();
-      score += POSITIVE_CLASS_WEIGHTS[lowerClassName] || 0;
-      score += NEGATIVE_CLASS_WEIGHTS[lowerClassName] || 0;
+      score += weights.classes.positive[lowerClassName] || 0;
+      score += weights.classes.negative[lowerClassName] || 0;
     }
 
     // 3. 内容特征评分
-    const text = $node.text().trim();
     const textLength = calculateTextLength($, node);
     const linkNode = $node.find('a').get(0);
     const linkLength = linkNode ? calculateTextLength($, asCheerioNode(linkNode as CheerioElement)) : 0;
     const linkDensity = linkLength / (textLength || 1);
 
     // 文本长度得分
-    score += Math.min(Math.floor(textLength / 100), 10);
+    score += Math.min(Math.floor(textLength * weights.content.textLengthFactor / 30), 10);
     
     // 链接密度惩罚
-    if (linkDensity > 0.5) {
-      score -= Math.floor(linkDensity * 10);
+    if (linkDensity > thresholds.maxLinkDensity) {
+      score += Math.floor(linkDensity * 20 * weights.content.linkDensityFactor);
     }
 
     // 图片奖励
     const imageCount = $node.find('img').length;
-    score += Math.min(imageCount * 2, 8);
+    score += Math.min(imageCount, 4) * weights.content.imageFactor;
 
     // 段落奖励
     const paragraphCount = $node.find('p').length;
-    score += Math.min(paragraphCount, 5);
+    score += Math.min(paragraphCount, 5) * weights.content.paragraphFactor;
 
     // 标题奖励
     const headingCount = $node.find('h1, h2, h3, h4, h5, h6').length;
-    score += Math.min(headingCount * 2, 6);
+    score += Math.min(headingCount, 3) * weights.content.headingFactor;
 
     return score;
   }
@@ -299,9 +565,9 @@ export class BaseExtractor {
   /**
    * 清理节点属性
    */
-  protected cleanAttributes(node: CheerioNode): void {
+  protected cleanAttributes(ctx: ExtractionContext, node: CheerioNode): void {
     if (!node.tagName) return;
-    const $ = this.$;
+    const { $ } = ctx;
     const $node = $(asElement(node));
     
     // 获取所有属性
@@ -309,22 +575,22 @@ export class BaseExtractor {
     
     // 移除不需要的属性
     for (const attr in attributes) {
-      if (!KEEP_ATTRIBUTES.includes(attr.toLowerCase())) {
+      if (!this.config.clean.keepAttributes.includes(attr.toLowerCase())) {
         $node.removeAttr(attr);
       }
     }
     
     // 递归处理子节点
     $node.children().each((_: number, child: CheerioElement) => {
-      this.cleanAttributes(asCheerioNode(child));
+      this.cleanAttributes(ctx, asCheerioNode(child));
     });
   }
 
   /**
    * 增强的内容验证
    */
-  protected isValidContent(element: CheerioNode): boolean {
-    const $ = this.$;
+  protected isValidContent(ctx: ExtractionContext, element: CheerioNode): boolean {
+    const { $ } = ctx;
     const $elem = $(asElement(element));
     
     // 基本检查
@@ -338,7 +604,7 @@ export class BaseExtractor {
     }
     
     // 计算节点得分
-    const score = this.calculateNodeScore(element);
+    const score = this.calculateNodeScore(ctx, element);
     if (score < this.options.minScore) {
       return false;
     }
@@ -352,19 +618,19 @@ export class BaseExtractor {
     const linkNode = $elem.find('a').get(0);
     const linkLength = linkNode ? calculateTextLength($, asCheerioNode(linkNode as CheerioElement)) : 0;
     const linkDensity = linkLength / textLength;
-    if (linkDensity > 0.5) {
+    if (linkDensity > this.config.thresholds.maxLinkDensity) {
       return false;
     }
     
     return true;
   }
   
-  protected removeNode(node: CheerioNode): void {
-    const $ = this.$;
+  protected removeNode(ctx: ExtractionContext, node: CheerioNode): void {
+    const { $ } = ctx;
     const $elem = $(asElement(node));
     
     // 检查是否已经被移除
-    if (this.droppedNodes.has(node)) {
+    if (ctx.droppedNodes.has(node)) {
       return;
     }
     
@@ -379,40 +645,49 @@ export class BaseExtractor {
     const linkDensity = linkLength / textLength;
     
     // 如果链接密度过高或文本长度过短,移除节点
-    if (linkDensity > 0.5 || textLength < this.options.minTextLength) {
+    if (linkDensity > this.config.thresholds.maxLinkDensity || textLength < this.options.minTextLength) {
       $elem.remove();
-      this.droppedNodes.add(node);
+      ctx.droppedNodes.add(node);
     }
   }
   
-  protected postProcess(element: CheerioNode): void {
-    const $ = this.$;
+  protected postProcess(ctx: ExtractionContext, element: CheerioNode): void {
+    const { $ } = ctx;
     const $elem = $(asElement(element));
     
+    // 移除脚本、表单控件等不属于正文的标签,配置的清理规则已在清理文档时作用于正文之外
+    $elem.find(NON_CONTENT_TAGS).remove();
+    
+    // 规范化代码块,需在清理属性之前识别语言
+    normalizeCodeBlocks($, $elem);
+    
     // 清理属性
-    this.cleanAttributes(element);
+    this.cleanAttributes(ctx, element);
+    
+    // 将链接和媒体地址转换为绝对地址
+    absolutizeUrls($, $elem, ctx.baseUrl);
     
     // 移除空节点
-    $elem.find('*:empty').remove();
+    $elem.find(`*:empty:not(${VOID_MEDIA_TAGS})`).remove();
     
     // 规范化内容
-    this.normalizeContent();
+    this.normalizeContent(ctx);
     
     // 处理特殊标签
-    this.processSpecialTags($elem);
+    this.processSpecialTags(ctx, $elem);
     
     // 处理数学公式
-    this.processMathFormulas($elem);
+    this.processMathFormulas(ctx, $elem);
     
     // 处理引用和注释
-    this.processQuotesAndNotes($elem);
+    this.processQuotesAndNotes(ctx, $elem);
   }
 
   /**
    * 处理数学公式
    */
-  protected processMathFormulas($elem: cheerio.Cheerio<CheerioElement>): void {
-    const $ = this.$;
+  protected processMathFormulas(ctx: ExtractionContext, $elem: cheerio.Cheerio<CheerioElement>): void {
+    const { $ } = ctx;
     
     // 处理行内公式
     $elem.find('span.math-inline, .MathJax_Preview').each((_index: number, math: CheerioElement) => {
@@ -438,57 +713,37 @@ export class BaseExtractor {
       }
     });
     
-    // 处理LaTeX格式的公式
+    // 处理LaTeX格式的公式,公式和其余文字都转义后再生成元素
     const processNode = (node: CheerioElement) => {
       const cheerioNode = asCheerioNode(node);
-      if ('type' in cheerioNode && cheerioNode.type === 'text' && 'data' in cheerioNode) {
-        const nodeData = cheerioNode.data || '';
-        let text: string = nodeData;
-        let changed = false;
-        
-        // 处理行内公式 $...$
-        const processInlineMath = (formula: string) => {
-          changed = true;
-          return `<span class="math-inline" data-tex="${formula}">$${formula}$</span>`;
-        };
-        text = text.replace(/\$([^\$]+)\$/g, (_match: string, formula: string) => processInlineMath(formula));
-        
-        // 处理块级公式 $$...$$
-        const processDisplayMath = (formula: string) => {
-          changed = true;
-          return `<div class="math-display" data-tex="${formula}">$$${formula}$$</div>`;
-        };
-        text = text.replace(/\$\$([^\$]+)\$\$/g, (_match: string, formula: string) => processDisplayMath(formula));
-        
-        // 处理 \begin{equation}...\end{equation}
-        const processEquation = (formula: string) => {
-          changed = true;
-          return `<div class="math-display" data-tex="${formula}">\\begin{equation}${formula}\\end{equation}</div>`;
-        };
-        text = text.replace(/\\begin{equation}([\s\S]*?)\\end{equation}/g, (_match: string, formula: string) => processEquation(formula));
-        
-        // 处理 \begin{align}...\end{align}
-        const processAlign = (formula: string) => {
-          changed = true;
-          return `<div class="math-display" data-tex="${formula}">\\begin{align}${formula}\\end{align}</div>`;
-        };
-        text = text.replace(/\\begin{align}([\s\S]*?)\\end{align}/g, (_match: string, formula: string) => processAlign(formula));
-        
-        if (changed) {
-          const $newContent = $(text);
-          if ($newContent.length > 0) {
-            $(node).replaceWith($newContent);
-          }
-        }
+      if (!('type' in cheerioNode) || cheerioNode.type !== 'text' || !('data' in cheerioNode)) {
+        return;
+      }
+      const text: string = cheerioNode.data || '';
+      let html = '';
+      let last = 0;
+
+      for (const match of text.matchAll(LATEX_PATTERN)) {
+        const [source, display, inline, , body] = match;
+        const formula = display ?? inline ?? body;
+        const className = inline !== undefined ? 'math-inline' : 'math-display';
+        const tag = inline !== undefined ? 'span' : 'div';
+        html += escapeHtml(text.slice(last, match.index)) +
+          `<${tag} class="${className}" data-tex="${escapeHtml(formula)}">${escapeHtml(source)}</${tag}>`;
+        last = match.index! + source.length;
+      }
+
+      if (last > 0) {
+        $(node).replaceWith(html + escapeHtml(text.slice(last)));
       }
     };
 
-    // 遍历所有节点处理公式
+    // 遍历所有节点处理公式,代码块中的 $ 和 \begin 不是公式
     const traverse = (element: CheerioElement) => {
       const children = $(element).contents().toArray() as CheerioElement[];
       for (const child of children) {
         processNode(child);
-        if ('type' in child && child.type === 'tag') {
+        if ('type' in child && child.type === 'tag' && !CODE_TAGS.has(child.tagName.toLowerCase())) {
           traverse(child);
         }
       }
@@ -503,8 +758,8 @@ export class BaseExtractor {
   /**
    * 处理引用和注释
    */
-  protected processQuotesAndNotes($elem: cheerio.Cheerio<CheerioElement>): void {
-    const $ = this.$;
+  protected processQuotesAndNotes(ctx: ExtractionContext, $elem: cheerio.Cheerio<CheerioElement>): void {
+    const { $ } = ctx;
     
     // 处理块引用
     $elem.find('blockquote').each((_: number, quote: CheerioElement) => {
@@ -544,8 +799,8 @@ export class BaseExtractor {
   /**
    * 处理特殊标签
    */
-  protected processSpecialTags($elem: cheerio.Cheerio<CheerioElement>): void {
-    const $ = this.$;
+  protected processSpecialTags(ctx: ExtractionContext, $elem: cheerio.Cheerio<CheerioElement>): void {
+    const { $ } = ctx;
     
     // 处理表格
     $elem.find('table').each((_: number, table: CheerioElement) => {
@@ -562,23 +817,8 @@ export class BaseExtractor {
       $table.addClass('content-table');
     });
     
-    // 处理代码块
-    $elem.find('pre, code').each((_: number, code: CheerioElement) => {
-      const $code = $(code);
-      // 保留代码格式
-      const html = $code.html();
-      if (html) {
-        // 处理代码高亮
-        const lang = $code.attr('class')?.match(/language-(\w+)/)?.[1];
-        if (lang) {
-          $code.attr('data-language', lang);
-        }
-        // 保留换行和空格
-        $code.html(html.replace(/\n/g, '<br>').replace(/ /g, '&nbsp;'));
-      }
-      // 添加代码样式类
-      $code.addClass('content-code');
-    });
+    // 添加代码样式类,代码块的内容已在 normalizeCodeBlocks 中规范化
+    $elem.find('pre, code').addClass('content-code');
     
     // 处理图片
     $elem.find('img').each((_: number, img: CheerioElement) => {
@@ -588,11 +828,11 @@ export class BaseExtractor {
       if (dataSrc) {
         $img.attr('src', dataSrc);
       }
-      // 处理图片说明
-      const alt = $img.attr('alt');
-      if (alt) {
+      // 处理图片说明: 每张图片只生成一个说明,已在 figure 中的图片沿用原有说明
+      const alt = $img.attr('alt')?.trim();
+      if (alt && !$img.closest('figure').length) {
         $img.wrap('<figure class="content-figure"></figure>');
-        $img.after(`<figcaption class="figure-caption">${alt}</figcaption>`);
+        $img.after($('<figcaption class="figure-caption"></figcaption>').text(alt));
       }
       // 添加响应式类
       $img.addClass('img-fluid content-image');
@@ -602,8 +842,8 @@ export class BaseExtractor {
   /**
    * 使用XPath提取内容
    */
-  protected extractByXPath(): CheerioNode | null {
-    const $ = this.$;
+  protected extractByXPath(ctx: ExtractionContext): CheerioNode | null {
+    const { $ } = ctx;
     
     // 常用的内容XPath表达式
     const CONTENT_XPATHS = [
@@ -621,7 +861,8 @@ export class BaseExtractor {
         const elements = $(xpath.replace(/\/\//g, '').replace(/\[\@/g, '['));
         if (elements.length > 0) {
           const node = asCheerioNode(elements.get(0) as CheerioElement);
-          if (this.isValidContent(node)) {
+          if (this.isValidContent(ctx, node)) {
+            ctx.selector = xpath;
             return node;
           }
         }
@@ -636,8 +877,8 @@ export class BaseExtractor {
   /**
    * 使用启发式算法查找最佳节点
    */
-  protected findBestNode(): CheerioNode | null {
-    const $ = this.$;
+  protected findBestNode(ctx: ExtractionContext): CheerioNode | null {
+    const { $ } = ctx;
     let bestNode: CheerioNode | null = null;
     let maxScore = -1;
     
@@ -646,12 +887,12 @@ export class BaseExtractor {
       const node = asCheerioNode(element);
       
       // 跳过已经被排除的节点
-      if (this.droppedNodes.has(node)) {
+      if (ctx.droppedNodes.has(node)) {
         return;
       }
       
       // 计算节点得分
-      const score = this.calculateContentScore(node);
+      const score = this.calculateContentScore(ctx, node);
       
       // 更新最佳节点
       if (score > maxScore) {
@@ -660,16 +901,16 @@ export class BaseExtractor {
       }
     });
     
-    return bestNode && this.isValidContent(bestNode) ? bestNode : null;
+    return bestNode && this.isValidContent(ctx, bestNode) ? bestNode : null;
   }
 
   /**
    * 计算内容得分
    */
-  protected calculateContentScore(node: CheerioNode): number {
-    const $ = this.$;
+  protected calculateContentScore(ctx: ExtractionContext, node: CheerioNode): number {
+    const { $ } = ctx;
     const $node = $(asElement(node));
-    let score = this.calculateNodeScore(node);
+    let score = this.calculateNodeScore(ctx, node);
     
     // 1. 文本密度得分
     const textLength = calculateTextLength($, node);
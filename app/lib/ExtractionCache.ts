@@ -0,0 +1,130 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { defaultCacheConfig } from '../config/cache';
+import { LruCache } from '../utils/lru';
+import { type CacheConfig, type CacheEntry } from '../types/cache';
+
+export class ExtractionCache {
+  private static config: CacheConfig = defaultCacheConfig;
+  private static entries = new LruCache<string, CacheEntry>(defaultCacheConfig.maxEntries);
+  // 请求地址到最终地址的映射,使短链接和最终地址命中同一条目
+  private static aliases = new LruCache<string, string>(defaultCacheConfig.maxEntries);
+
+  /**
+   * 替换缓存配置并清空内存缓存
+   */
+  public static configure(config: Partial<CacheConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.entries = new LruCache(this.config.maxEntries);
+    this.aliases = new LruCache(this.config.maxEntries);
+  }
+
+  public static isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * 由最终地址和提取选项生成缓存键
+   */
+  private static getKey(finalUrl: string, options: object): string {
+    return createHash('sha256')
+      .update(JSON.stringify([finalUrl, options]))
+      .digest('hex');
+  }
+
+  /**
+   * 判断条目是否仍在有效期内
+   */
+  public static isFresh(entry: CacheEntry): boolean {
+    return entry.expiresAt > Date.now();
+  }
+
+  /**
+   * 读取缓存条目,过期条目同样返回,用于条件请求重新验证
+   * @param url 请求地址
+   * @param options 影响提取结果的选项
+   */
+  public static async get(url: string, options: object): Promise<CacheEntry | undefined> {
+    const finalUrl = this.aliases.get(url) || url;
+    const key = this.getKey(finalUrl, options);
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      return entry;
+    }
+
+    const stored = await this.readFromDisk(key);
+    if (stored) {
+      this.entries.set(key, stored);
+    }
+    return stored;
+  }
+
+  /**
+   * 写入缓存条目
+   * @param url 请求地址
+   * @param options 影响提取结果的选项
+   * @param entry 缓存内容,有效期由配置决定
+   */
+  public static async set(
+    url: string,
+    options: object,
+    entry: Omit<CacheEntry, 'storedAt' | 'expiresAt'>
+  ): Promise<CacheEntry> {
+    const now = Date.now();
+    const stored: CacheEntry = { ...entry, storedAt: now, expiresAt: now + this.config.ttl * 1000 };
+    const key = this.getKey(entry.finalUrl, options);
+
+    this.aliases.set(url, entry.finalUrl);
+    this.entries.set(key, stored);
+    await this.writeToDisk(key, stored);
+
+    // 别名映射只在内存中,磁盘上按请求地址再存一份,重启后请求地址仍能命中
+    const requestKey = this.getKey(url, options);
+    if (requestKey !== key) {
+      await this.writeToDisk(requestKey, stored);
+    }
+    return stored;
+  }
+
+  /**
+   * 从磁盘读取条目,读取失败时视为未命中
+   */
+  private static async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+    if (!this.config.dir) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(await readFile(join(this.config.dir, `${key}.json`), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 将条目写入磁盘,先写临时文件再重命名,避免读到写了一半的文件
+   */
+  private static async writeToDisk(key: string, entry: CacheEntry): Promise<void> {
+    if (!this.config.dir) {
+      return;
+    }
+    try {
+      await mkdir(this.config.dir, { recursive: true });
+      const file = join(this.config.dir, `${key}.json`);
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temp, JSON.stringify(entry));
+      await rename(temp, file);
+    } catch (error) {
+      console.warn('Failed to write cache entry:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 清空内存缓存
+   */
+  public static clear(): void {
+    this.entries.clear();
+    this.aliases.clear();
+  }
+}
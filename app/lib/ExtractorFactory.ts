@@ -2,42 +2,98 @@ import { ArticleExtractor } from './extractors/ArticleExtractor';
 import { ForumExtractor } from './extractors/ForumExtractor';
 import { TitleExtractor } from './extractors/TitleExtractor';
 import { WeixinExtractor } from './extractors/WeixinExtractor';
+import { ReadabilityExtractor } from './extractors/ReadabilityExtractor';
+import { AutoExtractor } from './extractors/AutoExtractor';
+import { TextExtractor } from './extractors/TextExtractor';
+import { DataExtractor } from './extractors/DataExtractor';
+import { ImageExtractor } from './extractors/ImageExtractor';
+import { PdfExtractor } from './extractors/PdfExtractor';
 import { BaseExtractor } from './BaseExtractor';
-import { WebsiteType } from '../types/extractor';
+import { SiteRuleRegistry } from './SiteRuleRegistry';
+import { ContentExtractor, ContentKind, DocumentExtractor, ExtractionEngine, ExtractorConfigOverrides, WebsiteType } from '../types/extractor';
 
 export class ExtractorFactory {
+  // 提取器不保存单次提取的状态,同一实例可被并发请求共享
   private static extractors: Map<string, BaseExtractor> = new Map();
+  private static readability = new ReadabilityExtractor();
+  // 非HTML文档的提取器
+  private static documentExtractors: Record<Exclude<ContentKind, 'html'>, DocumentExtractor> = {
+    text: new TextExtractor('text'),
+    markdown: new TextExtractor('markdown'),
+    json: new DataExtractor('json'),
+    xml: new DataExtractor('xml'),
+    image: new ImageExtractor(),
+    pdf: new PdfExtractor()
+  };
 
   /**
    * 获取提取器实例
    * @param type 网站类型
+   * @param config 配置覆盖项,传入时创建不缓存的新实例
    * @returns 对应的提取器实例
    */
-  public static getExtractor(type: WebsiteType): BaseExtractor {
+  public static getExtractor(type: WebsiteType, config?: ExtractorConfigOverrides): BaseExtractor {
+    if (config) {
+      return this.createExtractor(type, config);
+    }
+
     // 检查缓存
     if (this.extractors.has(type)) {
       return this.extractors.get(type)!;
     }
 
-    // 创建新实例
-    let extractor: BaseExtractor;
+    // 缓存实例
+    const extractor = this.createExtractor(type);
+    this.extractors.set(type, extractor);
+    return extractor;
+  }
+
+  /**
+   * 创建新的提取器实例
+   */
+  private static createExtractor(type: WebsiteType, config?: ExtractorConfigOverrides): BaseExtractor {
     switch (type) {
       case 'article':
-        extractor = new ArticleExtractor();
-        break;
+        return new ArticleExtractor(config);
       case 'forum':
-        extractor = new ForumExtractor();
-        break;
+        return new ForumExtractor(config);
       case 'weixin':
-        extractor = new WeixinExtractor();
-        break;
+        return new WeixinExtractor(config);
       default:
         throw new Error(`Unsupported extractor type: ${type}`);
     }
+  }
 
-    // 缓存实例
-    this.extractors.set(type, extractor);
-    return extractor;
+  /**
+   * 按提取引擎获取提取器
+   * @param type 网站类型
+   * @param engine 提取引擎
+   * @param config 配置覆盖项,只作用于内置提取器
+   * @returns 对应的提取器
+   */
+  public static getContentExtractor(
+    type: WebsiteType,
+    engine: ExtractionEngine = 'builtin',
+    config?: ExtractorConfigOverrides
+  ): ContentExtractor {
+    switch (engine) {
+      case 'builtin':
+        return this.getExtractor(type, config);
+      case 'readability':
+        return this.readability;
+      case 'auto':
+        return new AutoExtractor(this.getExtractor(type, config), this.readability);
+      default:
+        throw new Error(`Unsupported extraction engine: ${engine}`);
+    }
+  }
+
+  /**
+   * 获取非HTML文档的提取器
+   * @param kind 内容类型
+   */
+  public static getDocumentExtractor(kind: Exclude<ContentKind, 'html'>): DocumentExtractor {
+    return this.documentExtractors[kind];
   }
 
   /**
@@ -46,14 +102,10 @@ export class ExtractorFactory {
    * @returns 合适的提取器实例
    */
   public static getExtractorByUrl(url: string): BaseExtractor {
-    // 微信文章
-    if (url.includes('mp.weixin.qq.com')) {
-      return this.getExtractor('weixin');
-    }
-    
-    // 论坛特征
-    if (url.includes('forum') || url.includes('bbs') || url.includes('thread')) {
-      return this.getExtractor('forum');
+    // 站点规则指定的提取器
+    const rule = SiteRuleRegistry.match(url);
+    if (rule?.type) {
+      return this.getExtractor(rule.type);
     }
 
     // 默认使用文章提取器
@@ -0,0 +1,114 @@
+import { load, type CheerioAPI } from 'cheerio';
+import { defaultConfig } from '../config/extractor';
+import { defaultPageStateRules } from '../config/pageStates';
+import { extractHydrationCandidates } from '../utils/hydration';
+import { matchHost } from '../utils/url';
+import { type PageState, type PageStateRule } from '../types/extractor';
+
+// 未设置 maxTextLength 时的默认值
+const DEFAULT_MAX_TEXT_LENGTH = 1500;
+
+// 页眉、页脚、导航等页面框架,通用规则只看除此之外的文字
+const PAGE_CHROME_SELECTOR = 'header, footer, nav, aside';
+
+// 用于匹配的页面文字
+interface PageText {
+  title: string;
+  // 页面全部文字
+  text: string;
+  // 去掉页面框架后的文字,通用规则只在这部分几乎为空时匹配
+  mainText: string;
+  // 客户端状态中的正文长度,服务端HTML只是空壳时正文在这里
+  hydratedLength: number;
+}
+
+export class PageClassifier {
+  private static rules: PageStateRule[] = [...defaultPageStateRules];
+
+  /**
+   * 注册识别规则,新规则优先于已有规则匹配
+   */
+  public static register(rules: PageStateRule | PageStateRule[]): void {
+    this.rules.unshift(...(Array.isArray(rules) ? rules : [rules]));
+  }
+
+  /**
+   * 恢复为内置规则
+   */
+  public static reset(): void {
+    this.rules = [...defaultPageStateRules];
+  }
+
+  /**
+   * 获取适用于该URL的规则
+   */
+  private static getRules(url: string): PageStateRule[] {
+    let hostname = '';
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      // 没有URL时只使用通用规则
+    }
+
+    return this.rules.filter(rule =>
+      !rule.hosts || (hostname && rule.hosts.some(pattern => matchHost(pattern, hostname)))
+    );
+  }
+
+  /**
+   * 匹配规则,正文超过 maxTextLength 时选择器和文字标记都不再匹配
+   * 不限主机的通用规则只统计页面框架之外的文字,正常的短文章引用这些提示语时不会被误判
+   * @param $ 原始页面,提取后识别时没有页面,只匹配文字标记
+   */
+  private static matchRule(rule: PageStateRule, page: PageText, $?: CheerioAPI): boolean {
+    const text = rule.hosts ? page.text : page.mainText;
+    if (text.length + page.hydratedLength > (rule.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH)) {
+      return false;
+    }
+    return !!($ && rule.selectors?.some(selector => $(selector).length > 0)) ||
+      !!rule.markers?.some(marker => text.includes(marker)) ||
+      !!rule.titleMarkers?.some(marker => page.title.includes(marker)) ||
+      !!rule.titlePatterns?.some(pattern => pattern.test(page.title));
+  }
+
+  /**
+   * 提取前识别原始页面
+   * @param html 页面HTML
+   * @param url 页面URL
+   */
+  public static classifyDocument(html: string, url: string): PageState {
+    const $: CheerioAPI = load(html);
+    const [hydrated] = extractHydrationCandidates($, defaultConfig.thresholds.minTextLength);
+    $('script, style, noscript, template').remove();
+    const title = $('title').first().text().trim();
+    const text = $('body').text().replace(/\s+/g, ' ').trim();
+    const $main = $('body').clone();
+    $main.find(PAGE_CHROME_SELECTOR).remove();
+    const mainText = $main.text().replace(/\s+/g, ' ').trim();
+
+    for (const rule of this.getRules(url)) {
+      if (this.matchRule(rule, { title, text, mainText, hydratedLength: hydrated?.textLength ?? 0 }, $)) {
+        return rule.state;
+      }
+    }
+    return 'ok';
+  }
+
+  /**
+   * 提取后识别提取结果
+   * 正文很短且只剩错误提示时,说明提取到的是错误页的内容
+   * @param title 提取出的标题
+   * @param textContent 提取出的正文
+   * @param url 页面URL
+   */
+  public static classifyContent(title: string, textContent: string, url: string): PageState {
+    const text = textContent.replace(/\s+/g, ' ').trim();
+
+    for (const rule of this.getRules(url)) {
+      if (this.matchRule(rule, { title, text, mainText: text, hydratedLength: 0 })) {
+        return rule.state;
+      }
+    }
+    return 'ok';
+  }
+}
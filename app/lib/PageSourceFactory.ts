@@ -0,0 +1,71 @@
+import { HttpPageSource } from './sources/HttpPageSource';
+import { FilePageSource } from './sources/FilePageSource';
+import { RenderPageSource } from './sources/RenderPageSource';
+import { type PageSource, type RenderAdapter } from '../types/source';
+
+export class PageSourceFactory {
+  private static sources: Map<string, PageSource> = new Map();
+  private static initialized = false;
+
+  /**
+   * 注册内置来源
+   * 本地文件来源只在设置了 PAGE_SOURCE_FILE_ROOT 时启用,避免通过接口读取任意文件
+   */
+  private static ensureInitialized(): void {
+    if (this.initialized) {
+      return;
+    }
+    this.initialized = true;
+    this.sources.set('http', new HttpPageSource());
+
+    const root = process.env.PAGE_SOURCE_FILE_ROOT;
+    if (root) {
+      this.sources.set('file', new FilePageSource(root));
+    }
+  }
+
+  /**
+   * 注册页面来源,同名来源会被替换
+   */
+  public static register(source: PageSource): void {
+    this.ensureInitialized();
+    this.sources.set(source.name, source);
+  }
+
+  /**
+   * 设置JS渲染后端,注册为 render 来源
+   * @param adapter 渲染适配器,测试中可替换为本地桩
+   */
+  public static setRenderAdapter(adapter: RenderAdapter): void {
+    this.register(new RenderPageSource(adapter));
+  }
+
+  /**
+   * 判断来源是否可用
+   */
+  public static has(name: string): boolean {
+    this.ensureInitialized();
+    return this.sources.has(name);
+  }
+
+  /**
+   * 获取页面来源
+   * @param name 来源名称,默认为 http
+   */
+  public static getSource(name: string = 'http'): PageSource {
+    this.ensureInitialized();
+    const source = this.sources.get(name);
+    if (!source) {
+      throw new Error(`Unsupported page source: ${name}`);
+    }
+    return source;
+  }
+
+  /**
+   * 清除已注册的来源,下次使用时重新注册内置来源
+   */
+  public static reset(): void {
+    this.sources.clear();
+    this.initialized = false;
+  }
+}
@@ -0,0 +1,140 @@
+import { readFileSync } from 'fs';
+import { defaultSiteRules } from '../config/sites';
+import { SiteRule } from '../types/extractor';
+import { matchHost } from '../utils/url';
+
+const WEBSITE_TYPES = ['article', 'forum', 'weixin'];
+
+/**
+ * 校验字符串数组字段
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * 校验并转换站点规则
+ * @param data 规则对象或规则数组
+ * @returns 校验通过的规则列表
+ */
+export function parseSiteRules(data: unknown): SiteRule[] {
+  const items = Array.isArray(data) ? data : [data];
+
+  return items.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new Error(`Site rule #${index} must be an object`);
+    }
+
+    const rule = item as Record<string, unknown>;
+    if (typeof rule.name !== 'string' || !rule.name) {
+      throw new Error(`Site rule #${index} requires a name`);
+    }
+    if (!isStringArray(rule.hosts) || rule.hosts.length === 0) {
+      throw new Error(`Site rule "${rule.name}" requires a non-empty hosts array`);
+    }
+    if (rule.type !== undefined && !WEBSITE_TYPES.includes(rule.type as string)) {
+      throw new Error(`Site rule "${rule.name}" has unsupported type: ${String(rule.type)}`);
+    }
+    for (const field of ['contentSelectors', 'removeSelectors', 'titleSelectors']) {
+      if (rule[field] !== undefined && !isStringArray(rule[field])) {
+        throw new Error(`Site rule "${rule.name}" field ${field} must be a string array`);
+      }
+    }
+    if (rule.metadata !== undefined) {
+      const metadata = rule.metadata as Record<string, unknown>;
+      if (!metadata || typeof metadata !== 'object' ||
+          (metadata.author !== undefined && !isStringArray(metadata.author)) ||
+          (metadata.publishTime !== undefined && !isStringArray(metadata.publishTime))) {
+        throw new Error(`Site rule "${rule.name}" has invalid metadata selectors`);
+      }
+    }
+
+    return rule as unknown as SiteRule;
+  });
+}
+
+export class SiteRuleRegistry {
+  private static rules: SiteRule[] = [];
+  private static initialized = false;
+
+  /**
+   * 注册内置规则,并加载 SITE_RULES_FILE 指定的JSON规则文件
+   */
+  private static ensureInitialized(): void {
+    if (this.initialized) {
+      return;
+    }
+    this.initialized = true;
+    this.rules = [...defaultSiteRules];
+
+    const file = process.env.SITE_RULES_FILE;
+    if (file) {
+      this.loadFromFile(file);
+    }
+  }
+
+  /**
+   * 注册站点规则,后注册的规则优先匹配
+   * @param rules 单条规则或规则列表(可直接传入TS模块导出的规则)
+   */
+  public static register(rules: SiteRule | SiteRule[]): void {
+    this.ensureInitialized();
+    this.rules.push(...parseSiteRules(rules));
+  }
+
+  /**
+   * 从JSON字符串加载规则
+   */
+  public static loadFromJson(json: string): void {
+    this.register(JSON.parse(json));
+  }
+
+  /**
+   * 从JSON文件加载规则
+   */
+  public static loadFromFile(path: string): void {
+    console.log('Loading site rules from:', path);
+    this.loadFromJson(readFileSync(path, 'utf-8'));
+  }
+
+  /**
+   * 查找与URL匹配的站点规则
+   * @param url 网页URL
+   * @returns 匹配的规则,没有匹配时返回null
+   */
+  public static match(url: string): SiteRule | null {
+    this.ensureInitialized();
+
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i];
+      if (rule.hosts.some(pattern => matchHost(pattern, hostname))) {
+        return rule;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 获取所有已注册的规则
+   */
+  public static getRules(): SiteRule[] {
+    this.ensureInitialized();
+    return [...this.rules];
+  }
+
+  /**
+   * 清除所有规则,下次使用时重新加载内置规则
+   */
+  public static reset(): void {
+    this.rules = [];
+    this.initialized = false;
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DataExtractor } from '../extractors/DataExtractor';
+import { type LoadedPage } from '../../types/source';
+
+function loaded(html: string, contentType: string): LoadedPage {
+  return { html, contentType, finalUrl: 'https://example.com/data', redirectChain: ['https://example.com/data'] };
+}
+
+describe('DataExtractor', () => {
+  it('uses a fence longer than any backtick run in the document', async () => {
+    const json = JSON.stringify({ title: 'Snippet', body: 'Use ```js\nconsole.log(1)\n``` to show code' });
+    const result = await new DataExtractor('json').extract(loaded(json, 'application/json'));
+
+    expect(result.title).toBe('Snippet');
+    expect(result.markdown?.startsWith('````json\n')).toBe(true);
+    expect(result.markdown?.endsWith('\n````')).toBe(true);
+  });
+
+  it('keeps the plain three backtick fence for ordinary documents', async () => {
+    const result = await new DataExtractor('xml').extract(loaded('<feed><title>Feed</title></feed>', 'application/xml'));
+
+    expect(result.markdown).toMatch(/^```xml\n[\s\S]*<title>Feed<\/title>[\s\S]*\n```$/);
+  });
+});
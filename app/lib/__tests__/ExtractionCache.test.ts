@@ -0,0 +1,39 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { defaultCacheConfig } from '../../config/cache';
+import { ExtractionCache } from '../ExtractionCache';
+
+describe('ExtractionCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'extraction-cache-'));
+    ExtractionCache.configure({ enabled: true, dir });
+  });
+
+  afterEach(async () => {
+    ExtractionCache.configure(defaultCacheConfig);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('finds redirected entries by the requested URL after the memory cache is reset', async () => {
+    const options = { format: 'markdown' };
+    await ExtractionCache.set('https://short.example/x', options, {
+      output: { title: 'Redirected' },
+      finalUrl: 'https://example.com/article'
+    });
+
+    // 模拟进程重启,内存中的条目和别名都被清空
+    ExtractionCache.configure({ dir });
+
+    const byRequest = await ExtractionCache.get('https://short.example/x', options);
+    const byFinal = await ExtractionCache.get('https://example.com/article', options);
+
+    expect(byRequest?.output.title).toBe('Redirected');
+    expect(byRequest?.finalUrl).toBe('https://example.com/article');
+    expect(byFinal?.output.title).toBe('Redirected');
+    expect(await ExtractionCache.get('https://short.example/x', { format: 'html' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExtractorFactory } from '../ExtractorFactory';
+import { type WebsiteType } from '../../types/extractor';
+
+const DOCUMENT_COUNT = 50;
+
+/**
+ * 生成带有唯一标记的文章页,标题和正文都能据此区分
+ */
+function buildDocument(index: number): { html: string; title: string; marker: string } {
+  const title = `Document number ${index} about topic ${index}`;
+  const marker = `uniquemarker${index}x`;
+  const paragraphs = Array.from({ length: 6 }, (_, line) =>
+    `<p>Paragraph ${line} of ${marker} contains enough words to be treated as real content by the extractor, ` +
+    `so the scoring keeps it as part of the main article body for document ${marker}.</p>`
+  ).join('');
+
+  return {
+    title,
+    marker,
+    html: `<!DOCTYPE html><html><head><title>${title}</title></head><body>` +
+      `<nav><a href="/">Home</a></nav>` +
+      `<article class="post-content"><h1>${title}</h1>${paragraphs}</article>` +
+      `<footer>Footer text</footer></body></html>`
+  };
+}
+
+describe('ExtractorFactory concurrency', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    ExtractorFactory.clearCache();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps outputs separate when shared extractors run in parallel', async () => {
+    const types: WebsiteType[] = ['article', 'forum'];
+    const documents = Array.from({ length: DOCUMENT_COUNT }, (_, index) => buildDocument(index));
+
+    const results = await Promise.all(documents.map((document, index) =>
+      ExtractorFactory.getExtractor(types[index % types.length])
+        .extract(document.html, `https://example.com/posts/${index}`)
+    ));
+
+    results.forEach((result, index) => {
+      const { title, marker } = documents[index];
+      expect(result.title).toBe(title);
+      expect(result.url).toBe(`https://example.com/posts/${index}`);
+      expect(result.textContent).toContain(marker);
+
+      // 正文中不能出现其他文档的标记
+      const foreign = result.textContent.match(/uniquemarker\d+x/g)?.filter(found => found !== marker) || [];
+      expect(foreign).toEqual([]);
+    });
+  });
+
+  it('does not accumulate state on the shared extractor between calls', async () => {
+    const extractor = ExtractorFactory.getExtractor('article');
+    const first = buildDocument(1);
+    const second = buildDocument(2);
+
+    await extractor.extract(first.html, 'https://example.com/posts/1');
+    const result = await extractor.extract(second.html, 'https://example.com/posts/2');
+
+    expect(result.title).toBe(second.title);
+    expect(result.textContent).toContain(second.marker);
+    expect(result.textContent).not.toContain(first.marker);
+  });
+});
@@ -0,0 +1,49 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlockedUrlError, FileNotFoundError, toErrorResponse } from '../errors';
+import { FilePageSource } from '../sources/FilePageSource';
+
+describe('FilePageSource', () => {
+  let root: string;
+  let source: FilePageSource;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'file-source-'));
+    await writeFile(join(root, 'page.html'), '<html><body>hello</body></html>');
+    source = new FilePageSource(root);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads files inside the root', async () => {
+    const page = await source.load('page.html');
+
+    expect(page.html).toContain('hello');
+  });
+
+  it('reports missing files as not found', async () => {
+    for (const target of ['missing.html', 'page.html/child.html', '.']) {
+      const error = await source.load(target).catch(error => error);
+
+      expect(error).toBeInstanceOf(FileNotFoundError);
+      expect(toErrorResponse(error).status).toBe(404);
+      expect(toErrorResponse(error).body.code).toBe('FILE_NOT_FOUND');
+    }
+  });
+
+  it('still blocks paths outside the root', async () => {
+    await expect(source.load('../outside.html')).rejects.toBeInstanceOf(BlockedUrlError);
+  });
+});
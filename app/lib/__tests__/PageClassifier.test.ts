@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PageClassifier } from '../PageClassifier';
+import { processHtml } from '../pipeline';
+
+// 超过通用规则 maxTextLength 的正常正文
+const ARTICLE = Array.from({ length: 20 }, (_, index) =>
+  `<p>Paragraph ${index} of a normal article that is long enough to be real content for readers.</p>`
+).join('');
+
+function page(title: string, body: string): string {
+  return `<html><head><title>${title}</title></head><body>${body}</body></html>`;
+}
+
+describe('PageClassifier', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ignores captcha widgets on long pages', () => {
+    const widget = '<div class="g-recaptcha"></div><iframe src="https://example.com/captcha"></iframe>';
+
+    expect(PageClassifier.classifyDocument(page('Article', widget), 'https://example.com/a')).toBe('captcha');
+    expect(PageClassifier.classifyDocument(page('Article', ARTICLE + widget), 'https://example.com/a')).toBe('ok');
+  });
+
+  it('ignores platform selectors on long pages', () => {
+    const html = page('Answer', ARTICLE.repeat(3) + '<div class="Unhuman"></div>');
+
+    expect(PageClassifier.classifyDocument(html, 'https://www.zhihu.com/question/1')).toBe('ok');
+  });
+
+  it('keeps short real articles that quote error page phrases', async () => {
+    const html = page('Migrating to the new API', '<nav><a href="/">Home</a></nav><article>' +
+      '<h1>Migrating to the new API</h1>' +
+      '<p>Version 3 is out, and the legacy callback API has been removed in favour of promises everywhere.</p>' +
+      '<p>If a handler still uses callbacks, the router answers with Page not found instead of calling it, ' +
+      'and the Chinese build shows 页面不存在 for the same case.</p>' +
+      '<p>Routes that need a session now show Please sign in to continue until the user has a valid token, ' +
+      'which keeps the behaviour consistent between the browser and server rendering.</p>' +
+      '<p>Update each handler to return a promise and the migration is complete. The compatibility shim that ' +
+      'used to translate callbacks is gone, so nothing else changes for code that already uses async functions.</p>' +
+      '</article>');
+
+    expect(PageClassifier.classifyDocument(html, 'https://example.com/blog/migrate')).toBe('ok');
+    const result = await processHtml(html, 'https://example.com/blog/migrate', { format: 'text' });
+    expect(result.metadata?.pageState).toBe('ok');
+  });
+
+  it('still detects near-empty error pages behind page chrome', () => {
+    const chrome = '<header><nav>' + 'Home Products Pricing Docs Blog Careers Contact '.repeat(5) + '</nav></header>';
+    const footer = '<footer>' + 'Copyright Example Inc. All rights reserved. Privacy Terms Cookies '.repeat(5) + '</footer>';
+
+    expect(PageClassifier.classifyDocument(
+      page('Example', `${chrome}<main><h1>Page not found</h1><p>Go back home.</p></main>${footer}`),
+      'https://example.com/missing'
+    )).toBe('not_found');
+    expect(PageClassifier.classifyDocument(
+      page('Example', `${chrome}<main><p>This post has been deleted by its author.</p></main>${footer}`),
+      'https://example.com/p/1'
+    )).toBe('deleted');
+  });
+
+  it('counts hydration state text on client-rendered shells', async () => {
+    const body = Array.from({ length: 12 }, (_, index) =>
+      `Paragraph ${index} of the hydrated article carries enough words to be the main content.`
+    ).join('\n\n');
+    const state = JSON.stringify({ props: { pageProps: { post: { title: 'Hydrated', content: body } } } });
+    const html = page('Hydrated', '<div id="__next"><header><a href="/login">Please sign in to continue</a></header>' +
+      '<div class="newsletter"><div class="g-recaptcha"></div></div></div>' +
+      `<script id="__NEXT_DATA__" type="application/json">${state}</script>`);
+
+    expect(PageClassifier.classifyDocument(html, 'https://example.com/posts/1')).toBe('ok');
+    const result = await processHtml(html, 'https://example.com/posts/1', { format: 'text' });
+    expect(result.metadata?.pageState).toBe('ok');
+    expect(result.textContent).toContain('Paragraph 11 of the hydrated article');
+  });
+
+  it('matches 404 titles only as a whole title segment', () => {
+    const body = '<p>Short page.</p>';
+
+    for (const title of ['404', '404 Not Found', '404 - Page Not Found | Example', 'Example | Not Found', 'Error 404']) {
+      expect(PageClassifier.classifyDocument(page(title, body), 'https://example.com/a')).toBe('not_found');
+    }
+    for (const title of ['Top 404 Errors Explained', 'Fixing Not Found errors in Next.js', 'Room 404 review', 'Not Founded Yet']) {
+      expect(PageClassifier.classifyDocument(page(title, body), 'https://example.com/a')).toBe('ok');
+      expect(PageClassifier.classifyContent(title, 'Short page.', 'https://example.com/a')).toBe('ok');
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidDocumentError, toErrorResponse } from '../errors';
+import { PdfExtractor } from '../extractors/PdfExtractor';
+import { type LoadedPage } from '../../types/source';
+
+/**
+ * 生成只有一页的PDF,每行文字按给定字号和基线位置绘制
+ */
+function buildPdf(info: Record<string, string>, lines: Array<[size: number, y: number, text: string]>): Uint8Array {
+  const stream = lines.map(([size, y, text]) => `BT /F1 ${size} Tf 72 ${y} Td (${text}) Tj ET`).join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    `<< ${Object.entries(info).map(([key, value]) => `/${key} (${value})`).join(' ')} >>`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+function loaded(body: Uint8Array): LoadedPage {
+  return {
+    html: '',
+    body,
+    contentType: 'application/pdf',
+    finalUrl: 'https://example.com/report.pdf',
+    redirectChain: ['https://example.com/report.pdf']
+  };
+}
+
+describe('PdfExtractor', () => {
+  it('reads document info, headings and paragraphs', async () => {
+    const body = buildPdf({ Title: 'Quarterly Report', Author: 'Jane Doe', CreationDate: 'D:20240102030405Z' }, [
+      [24, 720, 'Results Overview'],
+      [12, 690, 'Revenue grew in every region during the quarter'],
+      [12, 676, 'and margins improved compared with last year.'],
+      [12, 640, 'Hiring will continue next quarter.']
+    ]);
+
+    const result = await new PdfExtractor().extract(loaded(body));
+
+    expect(result.title).toBe('Quarterly Report');
+    expect(result.metadata).toMatchObject({
+      contentKind: 'pdf',
+      author: 'Jane Doe',
+      publishTime: '2024-01-02T03:04:05.000Z',
+      pdf: { pageCount: 1 }
+    });
+    expect(result.content).toContain('<h1>Results Overview</h1>');
+    expect(result.content).toContain(
+      '<p>Revenue grew in every region during the quarter and margins improved compared with last year.</p>'
+    );
+    expect(result.content).toContain('<p>Hiring will continue next quarter.</p>');
+  });
+
+  it('reports unreadable documents as invalid instead of an internal error', async () => {
+    const body = new TextEncoder().encode('this is not a pdf document at all');
+    const error = await new PdfExtractor().extract(loaded(body)).catch(error => error);
+
+    expect(error).toBeInstanceOf(InvalidDocumentError);
+    expect(toErrorResponse(error)).toMatchObject({ status: 422, body: { code: 'INVALID_DOCUMENT' } });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { embedArchiveImages } from '../archive';
+import { type ArchiveResource } from '../../types/archive';
+
+function image(url: string): ArchiveResource {
+  return { url, contentType: 'image/png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]) };
+}
+
+describe('embedArchiveImages', () => {
+  it('reports only the images substituted into the page as inlined', () => {
+    const html = '<html><body><img src="a.png" srcset="b.png 2x"><video poster="missing.png"></video></body></html>';
+    const resources = [
+      image('https://example.com/a.png'),
+      image('https://example.com/b.png'),
+      image('https://example.com/unused.png')
+    ];
+
+    const embedded = embedArchiveImages(html, 'https://example.com/page.html', resources);
+
+    expect(embedded.html).toContain('src="data:image/png;base64,');
+    expect(embedded.images.map(({ url, inlined }) => [url, inlined])).toEqual([
+      ['https://example.com/a.png', true],
+      ['https://example.com/b.png', false],
+      ['https://example.com/unused.png', false]
+    ]);
+  });
+});
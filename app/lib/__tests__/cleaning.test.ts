@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ArticleExtractor } from '../extractors/ArticleExtractor';
+import { parseConfigOverrides } from '../pipeline';
+
+const FILLER = Array.from({ length: 4 }, (_, index) =>
+  `<p>Paragraph ${index} has enough words in it to be treated as the main content of this page by the extractor scoring.</p>`
+).join('');
+
+describe('configured cleaning rules', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps embeds and structural elements inside the selected content', async () => {
+    const html = `<html><head><title>Article</title></head><body>` +
+      `<div class="share">SHAREOUTSIDE</div>` +
+      `<article class="post-content"><form><p>ARTICLEFORM</p></form>${FILLER}` +
+      `<iframe src="https://www.youtube.com/embed/abc"></iframe>` +
+      `<div class="recommend">CONFIGCLASSINSIDE</div>` +
+      `<script>SCRIPTTEXT</script></article></body></html>`;
+
+    const result = await new ArticleExtractor().extract(html, 'https://example.com/a');
+
+    expect(result.content).toContain('https://www.youtube.com/embed/abc');
+    expect(result.textContent).toContain('ARTICLEFORM');
+    expect(result.textContent).toContain('CONFIGCLASSINSIDE');
+    expect(result.textContent).not.toContain('SHAREOUTSIDE');
+    expect(result.content).not.toContain('SCRIPTTEXT');
+  });
+
+  it('rejects class and tag names that cannot be used in a selector', () => {
+    expect(() => parseConfigOverrides({ clean: { removeClasses: ['ok', 'bad]name'] } })).toThrow(/removeClasses/);
+    expect(() => parseConfigOverrides({ clean: { removeTags: ['div > p'] } })).toThrow(/removeTags/);
+    expect(parseConfigOverrides({ clean: { removeClasses: ['promo-box'], removeTags: ['aside'] } })).toBeDefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { load } from 'cheerio';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processHtml } from '../pipeline';
+
+const FILLER = Array.from({ length: 4 }, (_, index) =>
+  `<p>Paragraph ${index} has enough words in it to be treated as the main content of this page by the extractor scoring.</p>`
+).join('');
+
+const SCRIPT = 'if [ -z "$HOME" ]; then\n  echo "no home" >&2\nfi\necho $PATH';
+
+describe('code blocks in html output', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps shell variables in code blocks intact', async () => {
+    const code = SCRIPT.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const html = `<html><head><title>Shell</title></head><body><article class="post-content">${FILLER}` +
+      `<pre><code class="language-bash">${code}</code></pre><p>Inline <code>$HOME</code> and <code>$PATH</code> too.</p>` +
+      `</article></body></html>`;
+
+    const result = await processHtml(html, 'https://example.com/shell', { format: 'html' });
+    const $ = load(result.content || '', null, false);
+
+    expect($('pre code').text()).toBe(SCRIPT);
+    expect($('[data-tex]')).toHaveLength(0);
+    expect($('p code').map((_, node) => $(node).text()).get()).toEqual(['$HOME', '$PATH']);
+  });
+
+  it('escapes formulas outside code blocks', async () => {
+    const html = `<html><head><title>Math</title></head><body><article class="post-content">${FILLER}` +
+      `<p>We know $a &lt; b" c$ holds.</p></article></body></html>`;
+
+    const result = await processHtml(html, 'https://example.com/math', { format: 'html' });
+    const $ = load(result.content || '', null, false);
+
+    expect($('.math-inline').attr('data-tex')).toBe('a < b" c');
+    expect($('.math-inline').text()).toBe('$a < b" c$');
+    expect($('p').last().text()).toBe('We know $a < b" c$ holds.');
+  });
+});
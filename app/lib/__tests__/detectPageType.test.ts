@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ExtractorFactory } from '../ExtractorFactory';
+import { ArticleExtractor } from '../extractors/ArticleExtractor';
+import { ForumExtractor } from '../extractors/ForumExtractor';
+import { SiteRuleRegistry } from '../SiteRuleRegistry';
+import { detectPageType } from '../pipeline';
+
+const ARTICLE = '<html><body><article><h1>Threading in Python</h1><p>Body text.</p></article></body></html>';
+
+describe('detectPageType', () => {
+  afterEach(() => {
+    SiteRuleRegistry.reset();
+  });
+
+  it('does not guess the type from words in the URL', () => {
+    for (const url of ['https://example.com/topics/python', 'https://example.com/threading-in-python', 'https://example.com/bbs-guide']) {
+      expect(detectPageType(url, ARTICLE)).toBe('article');
+      expect(ExtractorFactory.getExtractorByUrl(url)).toBeInstanceOf(ArticleExtractor);
+    }
+  });
+
+  it('uses the extractor type of the matching site rule', () => {
+    SiteRuleRegistry.register({ name: 'example-bbs', hosts: ['bbs.example.com'], type: 'forum' });
+
+    expect(detectPageType('https://bbs.example.com/read/1', ARTICLE)).toBe('forum');
+    expect(ExtractorFactory.getExtractorByUrl('https://bbs.example.com/read/1')).toBeInstanceOf(ForumExtractor);
+  });
+
+  it('still detects forums from the page structure', () => {
+    const html = '<html><body><div class="thread"><div class="post">First</div></div></body></html>';
+
+    expect(detectPageType('https://example.com/p/1', html)).toBe('forum');
+  });
+});
@@ -0,0 +1,95 @@
+import { load } from 'cheerio';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseExtractor } from '../BaseExtractor';
+import { ArticleExtractor } from '../extractors/ArticleExtractor';
+import { ForumExtractor } from '../extractors/ForumExtractor';
+import { WeixinExtractor } from '../extractors/WeixinExtractor';
+import { convertToMarkdown } from '../../utils/format';
+import { type ExtractionContext } from '../../types/extractor';
+
+// 足够长的正文段落,保证正文能被选中
+const FILLER = Array.from({ length: 4 }, (_, index) =>
+  `<p>Paragraph ${index} has enough words in it to be treated as the main content of this page by the extractor scoring.</p>`
+).join('');
+
+/**
+ * 生成只执行 BaseExtractor.preProcess 的子类,用于对比子类预处理的效果
+ */
+function withoutSubclassPreProcess<T extends BaseExtractor>(Extractor: new () => T): T {
+  const extractor = new Extractor();
+  Object.defineProperty(extractor, 'preProcess', {
+    value: function (this: BaseExtractor, ctx: ExtractionContext) {
+      (BaseExtractor.prototype as unknown as { preProcess(ctx: ExtractionContext): void }).preProcess.call(this, ctx);
+    }
+  });
+  return extractor;
+}
+
+describe('subclass preProcess hooks', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ArticleExtractor removes related posts', async () => {
+    const html = `<html><head><title>Article</title></head><body><article class="post-content">${FILLER}` +
+      `<div class="related-posts">RELATEDPOSTS</div>` +
+      `</article></body></html>`;
+
+    const result = await new ArticleExtractor().extract(html, 'https://example.com/a');
+    const baseline = await withoutSubclassPreProcess(ArticleExtractor).extract(html, 'https://example.com/a');
+
+    expect(baseline.textContent).toContain('RELATEDPOSTS');
+    expect(result.textContent).not.toContain('RELATEDPOSTS');
+  });
+
+  it('ArticleExtractor emits a single escaped caption per image', async () => {
+    const alt = 'Tom & <Jerry>';
+    const html = `<html><head><title>Article</title></head><body><article class="post-content">${FILLER}` +
+      `<img src="/cat.png" alt="${alt.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}">` +
+      `</article></body></html>`;
+
+    const result = await new ArticleExtractor().extract(html, 'https://example.com/a');
+    const $ = load(result.content, null, false);
+
+    expect($('figcaption')).toHaveLength(1);
+    expect($('figcaption').text()).toBe(alt);
+    expect($('jerry')).toHaveLength(0);
+    // Markdown 中只有图片的 alt 和一个说明
+    expect(convertToMarkdown(result.content).split('Tom').length - 1).toBe(2);
+  });
+
+  it('ForumExtractor removes signatures and puts the first post before replies', async () => {
+    const html = `<html><head><title>Thread</title></head><body><div class="thread-content">` +
+      `<div class="post reply"><p>REPLYTEXT comes first in the markup but is only a reply to the thread.</p></div>` +
+      `<div class="post first-post">${FILLER}<div class="user-signature">SIGNATURE</div></div>` +
+      `</div></body></html>`;
+
+    const result = await new ForumExtractor().extract(html, 'https://example.com/t');
+    const baseline = await withoutSubclassPreProcess(ForumExtractor).extract(html, 'https://example.com/t');
+
+    expect(baseline.textContent).toContain('SIGNATURE');
+    expect(result.textContent).not.toContain('SIGNATURE');
+    expect(result.content.indexOf('Paragraph 0')).toBeGreaterThanOrEqual(0);
+    expect(result.content.indexOf('Paragraph 0')).toBeLessThan(result.content.indexOf('REPLYTEXT'));
+    expect(result.content).not.toContain('data-unique-id');
+  });
+
+  it('WeixinExtractor removes hidden text and expands Tencent videos', async () => {
+    const html = `<html><head><title>Weixin</title></head><body><div id="js_content">${FILLER}` +
+      `<span style="color: rgba(255, 255, 255, 0)">HIDDENTEXT</span>` +
+      `<div class="video_iframe" data-vidtype="v123"></div>` +
+      `</div></body></html>`;
+
+    const result = await new WeixinExtractor().extract(html, 'https://mp.weixin.qq.com/s/abc');
+    const baseline = await withoutSubclassPreProcess(WeixinExtractor).extract(html, 'https://mp.weixin.qq.com/s/abc');
+
+    expect(baseline.textContent).toContain('HIDDENTEXT');
+    expect(result.textContent).not.toContain('HIDDENTEXT');
+    expect(baseline.content).not.toContain('v.qq.com');
+    expect(result.content).toContain('https://v.qq.com/txp/iframe/player.html?vid=v123');
+  });
+});
@@ -0,0 +1,285 @@
+import { load } from 'cheerio';
+import { parseBuffer } from 'bplist-parser';
+import { InvalidArchiveError } from './errors';
+import { type ArchiveFormat, type ArchiveImageInfo, type ArchiveImageMode, type ArchiveResource, type ParsedArchive } from '../types/archive';
+import { getMimeType } from '../utils/contentType';
+import { getBaseUrl, resolveUrl } from '../utils/url';
+
+// 二进制 plist 的文件头,Safari 的 .webarchive 使用这种格式
+const BPLIST_MAGIC = 'bplist00';
+
+// 超过该大小的图片不内联,只在结果中列出
+const MAX_INLINE_IMAGE_BYTES = 1024 * 1024;
+
+// 邮件头,名称统一为小写
+type MimeHeaders = Record<string, string>;
+
+/**
+ * 判断存档格式
+ * 二进制 plist 视为 .webarchive,其余按 MHTML 解析
+ */
+export function detectArchiveFormat(data: Uint8Array): ArchiveFormat {
+  return Buffer.from(data.subarray(0, BPLIST_MAGIC.length)).toString('latin1') === BPLIST_MAGIC
+    ? 'webarchive'
+    : 'mhtml';
+}
+
+/**
+ * 解析 MHTML 或 .webarchive 存档
+ * @param data 存档文件内容
+ */
+export function parseArchive(data: Uint8Array): ParsedArchive {
+  if (data.byteLength === 0) {
+    throw new InvalidArchiveError('Archive is empty');
+  }
+  return detectArchiveFormat(data) === 'webarchive' ? parseWebArchive(data) : parseMhtml(data);
+}
+
+/**
+ * 读取头部参数,如 Content-Type 中的 boundary
+ */
+function getHeaderParam(value: string, name: string): string | undefined {
+  const match = value.match(new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * 拆分头部和正文,解析折行的头部
+ * 内容按 latin1 处理,每个字符对应一个字节
+ */
+function parseMimeEntity(raw: string): { headers: MimeHeaders; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerText = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+
+  const headers: MimeHeaders = {};
+  let current = '';
+  for (const line of headerText.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current) {
+      headers[current] += ' ' + line.trim();
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      current = line.slice(0, separator).trim().toLowerCase();
+      headers[current] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * 按 Content-Transfer-Encoding 解码正文
+ */
+function decodeTransferEncoding(body: string, encoding: string = ''): Uint8Array {
+  switch (encoding.toLowerCase()) {
+    case 'base64':
+      return new Uint8Array(Buffer.from(body.replace(/\s+/g, ''), 'base64'));
+    case 'quoted-printable':
+      return new Uint8Array(Buffer.from(
+        body
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      ));
+    default:
+      return new Uint8Array(Buffer.from(body, 'latin1'));
+  }
+}
+
+/**
+ * 解析 MHTML(浏览器“保存为单个文件”)
+ * 根页面优先取 multipart/related 的 start 参数指向的部分,否则取第一个HTML部分
+ */
+function parseMhtml(data: Uint8Array): ParsedArchive {
+  const { headers, body } = parseMimeEntity(Buffer.from(data).toString('latin1'));
+  const contentType = headers['content-type'] || '';
+  const snapshotUrl = headers['snapshot-content-location'] || headers['content-location'] || '';
+  if (!headers['mime-version'] && !contentType) {
+    throw new InvalidArchiveError('Unrecognized archive format, expected MHTML or webarchive');
+  }
+
+  // 只有一个部分的 MHTML 直接就是页面本身
+  if (!contentType.toLowerCase().startsWith('multipart/')) {
+    return {
+      format: 'mhtml',
+      root: {
+        url: snapshotUrl,
+        contentType: contentType || 'text/html',
+        data: decodeTransferEncoding(body, headers['content-transfer-encoding'])
+      },
+      resources: []
+    };
+  }
+
+  const boundary = getHeaderParam(contentType, 'boundary');
+  if (!boundary) {
+    throw new InvalidArchiveError('MHTML multipart boundary is missing');
+  }
+
+  const parts: (ArchiveResource & { contentId?: string })[] = [];
+  for (const section of body.split(`--${boundary}`).slice(1)) {
+    // 结束分隔符之后的内容忽略
+    if (section.startsWith('--')) {
+      break;
+    }
+    const part = parseMimeEntity(section.replace(/^\r?\n/, '').replace(/\r?\n$/, ''));
+    const contentId = part.headers['content-id']?.replace(/^<|>$/g, '');
+    parts.push({
+      url: part.headers['content-location'] || (contentId ? `cid:${contentId}` : ''),
+      contentType: part.headers['content-type'] || 'application/octet-stream',
+      contentId,
+      data: decodeTransferEncoding(part.body, part.headers['content-transfer-encoding'])
+    });
+  }
+
+  const start = getHeaderParam(contentType, 'start')?.replace(/^<|>$/g, '');
+  let index = start ? parts.findIndex(part => part.contentId === start) : -1;
+  if (index < 0) {
+    index = parts.findIndex(part => /^(text\/html|application\/xhtml\+xml)/i.test(part.contentType));
+  }
+  if (index < 0) {
+    throw new InvalidArchiveError('No HTML document found in MHTML archive');
+  }
+
+  const [root] = parts.splice(index, 1);
+  return {
+    format: 'mhtml',
+    root: { url: root.url || snapshotUrl, contentType: root.contentType, data: root.data },
+    resources: parts.map(({ url, contentType: type, data: partData }) => ({ url, contentType: type, data: partData }))
+  };
+}
+
+/**
+ * 将 .webarchive 中的 WebResource 转换为资源
+ */
+function toWebResource(value: unknown): ArchiveResource | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const resource = value as Record<string, unknown>;
+  if (!Buffer.isBuffer(resource.WebResourceData)) {
+    return null;
+  }
+
+  const mimeType = typeof resource.WebResourceMIMEType === 'string' ? resource.WebResourceMIMEType : 'application/octet-stream';
+  const charset = typeof resource.WebResourceTextEncodingName === 'string' ? resource.WebResourceTextEncodingName : '';
+  return {
+    url: typeof resource.WebResourceURL === 'string' ? resource.WebResourceURL : '',
+    contentType: charset ? `${mimeType}; charset=${charset}` : mimeType,
+    data: new Uint8Array(resource.WebResourceData)
+  };
+}
+
+/**
+ * 收集 .webarchive 中的子资源,包括内嵌框架的页面和资源
+ */
+function collectWebSubresources(archive: Record<string, unknown>): ArchiveResource[] {
+  const resources: ArchiveResource[] = [];
+  if (Array.isArray(archive.WebSubresources)) {
+    resources.push(...archive.WebSubresources.map(toWebResource).filter((item): item is ArchiveResource => !!item));
+  }
+  if (Array.isArray(archive.WebSubframeArchives)) {
+    for (const frame of archive.WebSubframeArchives as Record<string, unknown>[]) {
+      const main = toWebResource(frame?.WebMainResource);
+      if (main) {
+        resources.push(main);
+      }
+      resources.push(...collectWebSubresources(frame || {}));
+    }
+  }
+  return resources;
+}
+
+/**
+ * 解析 Safari 的 .webarchive(二进制 plist)
+ */
+function parseWebArchive(data: Uint8Array): ParsedArchive {
+  let archive: Record<string, unknown>;
+  try {
+    [archive] = parseBuffer<Record<string, unknown>>(Buffer.from(data));
+  } catch (error) {
+    throw new InvalidArchiveError(`Invalid webarchive: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const root = toWebResource(archive?.WebMainResource);
+  if (!root) {
+    throw new InvalidArchiveError('No main resource found in webarchive');
+  }
+
+  return { format: 'webarchive', root, resources: collectWebSubresources(archive) };
+}
+
+/**
+ * 将正文中引用的存档图片内联为 data: 地址,并列出存档中的所有图片
+ * 这样提取结果不依赖可能已经失效的原始地址
+ * @param html 根页面HTML
+ * @param url 根页面地址
+ * @param resources 存档中的资源
+ * @param mode 图片处理方式
+ */
+export function embedArchiveImages(
+  html: string,
+  url: string,
+  resources: ArchiveResource[],
+  mode: ArchiveImageMode = 'inline'
+): { html: string; images: ArchiveImageInfo[] } {
+  const images = resources.filter(resource => getMimeType(resource.contentType).startsWith('image/'));
+  const byUrl = new Map(images.map(image => [image.url, image]));
+  const inlined = new Set<ArchiveResource>();
+
+  if (mode === 'inline' && images.length) {
+    const $ = load(html);
+    const baseUrl = getBaseUrl($, url);
+
+    // 找到地址对应的可内联图片,找不到或过大时返回 undefined
+    const findImage = (value: string): ArchiveResource | undefined => {
+      const image = byUrl.get(resolveUrl(value, baseUrl)) || byUrl.get(value.trim());
+      return image && image.data.byteLength <= MAX_INLINE_IMAGE_BYTES ? image : undefined;
+    };
+    // 只有实际写入页面的图片才记为已内联
+    const toDataUrl = (image: ArchiveResource): string => {
+      inlined.add(image);
+      return `data:${getMimeType(image.contentType)};base64,${Buffer.from(image.data).toString('base64')}`;
+    };
+
+    // 浏览器只保存实际显示的那张图片,可能是 src,也可能是 srcset 或 <picture> 中的某个候选
+    $('img').each((_, element) => {
+      const $img = $(element);
+      const $sources = $img.parent('picture').find('source[srcset]');
+      const candidates = [
+        $img.attr('src'),
+        ...[$img, ...$sources.toArray().map(source => $(source))].flatMap(
+          $element => ($element.attr('srcset') || '').split(',').map(item => item.trim().split(/\s+/)[0])
+        )
+      ].filter((value): value is string => !!value);
+
+      const image = candidates.map(findImage).find(Boolean);
+      if (image) {
+        // data: 地址中的逗号会破坏 srcset 语法,统一改为只使用 src
+        $img.attr('src', toDataUrl(image)).removeAttr('srcset');
+        $sources.remove();
+      }
+    });
+    $('video[poster]').each((_, element) => {
+      const $video = $(element);
+      const image = findImage($video.attr('poster') || '');
+      if (image) {
+        $video.attr('poster', toDataUrl(image));
+      }
+    });
+
+    html = $.html();
+  }
+
+  return {
+    html,
+    images: images.map(image => ({
+      url: image.url,
+      contentType: getMimeType(image.contentType),
+      bytes: image.data.byteLength,
+      inlined: inlined.has(image)
+    }))
+  };
+}
@@ -0,0 +1,204 @@
+import { type PageState } from '../types/extractor';
+
+// 稳定的错误码,客户端据此判断处理方式,不需要解析错误信息
+export type ExtractErrorCode =
+  | 'FETCH_FAILED'
+  | 'UPSTREAM_STATUS'
+  | 'CONTENT_TOO_SHORT'
+  | 'NO_MAIN_CONTENT'
+  | 'UNSUPPORTED_CONTENT_TYPE'
+  | 'INVALID_ARCHIVE'
+  | 'INVALID_DOCUMENT'
+  | 'FILE_NOT_FOUND'
+  | 'BLOCKED_URL'
+  | 'TIMEOUT'
+  | 'PAGE_DELETED'
+  | 'LOGIN_REQUIRED'
+  | 'CAPTCHA'
+  | 'PAGE_NOT_FOUND'
+  | 'INTERNAL_ERROR';
+
+// 返回给客户端的错误内容
+export interface ErrorBody {
+  error: string;
+  code: ExtractErrorCode;
+  // 稍后重试是否可能成功
+  retryable: boolean;
+  // 源站返回的状态码
+  upstreamStatus?: number;
+  // 识别出的错误页状态
+  pageState?: PageState;
+}
+
+interface ExtractErrorOptions {
+  retryable?: boolean;
+  upstreamStatus?: number;
+  cause?: unknown;
+}
+
+/**
+ * 提取服务的错误基类
+ */
+export class ExtractError extends Error {
+  public readonly code: ExtractErrorCode;
+  // 对应的HTTP状态码
+  public readonly status: number;
+  public readonly retryable: boolean;
+  public readonly upstreamStatus?: number;
+
+  constructor(code: ExtractErrorCode, status: number, message: string, options: ExtractErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.status = status;
+    this.retryable = options.retryable ?? false;
+    this.upstreamStatus = options.upstreamStatus;
+  }
+
+  public toJSON(): ErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.upstreamStatus !== undefined ? { upstreamStatus: this.upstreamStatus } : {})
+    };
+  }
+}
+
+/**
+ * 网络错误、DNS解析失败、响应过大等导致页面无法获取
+ */
+export class FetchFailedError extends ExtractError {
+  constructor(message: string, options: ExtractErrorOptions = {}) {
+    super('FETCH_FAILED', 502, message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * 源站返回了非成功状态码
+ * 429 和 5xx 可以重试
+ */
+export class UpstreamStatusError extends ExtractError {
+  constructor(upstreamStatus: number) {
+    super('UPSTREAM_STATUS', 502, `Upstream responded with status ${upstreamStatus}`, {
+      upstreamStatus,
+      retryable: upstreamStatus === 429 || upstreamStatus >= 500
+    });
+  }
+}
+
+/**
+ * 页面内容过短或为空
+ */
+export class ContentTooShortError extends ExtractError {
+  constructor(message = 'Retrieved HTML content is too short or empty') {
+    super('CONTENT_TOO_SHORT', 422, message);
+  }
+}
+
+/**
+ * 未能提取出正文
+ */
+export class NoMainContentError extends ExtractError {
+  constructor(message = 'No content could be extracted from the page') {
+    super('NO_MAIN_CONTENT', 422, message);
+  }
+}
+
+/**
+ * 不支持的内容类型
+ */
+export class UnsupportedContentTypeError extends ExtractError {
+  constructor(contentType: string) {
+    super('UNSUPPORTED_CONTENT_TYPE', 415, `Unsupported content type: ${contentType}`);
+  }
+}
+
+/**
+ * 上传的 MHTML 或 .webarchive 存档无法解析
+ */
+export class InvalidArchiveError extends ExtractError {
+  constructor(message: string) {
+    super('INVALID_ARCHIVE', 422, message);
+  }
+}
+
+/**
+ * PDF等文档损坏、加密或格式无法识别
+ */
+export class InvalidDocumentError extends ExtractError {
+  constructor(message: string, options: ExtractErrorOptions = {}) {
+    super('INVALID_DOCUMENT', 422, message, options);
+  }
+}
+
+/**
+ * 本地页面源中不存在请求的文件
+ */
+export class FileNotFoundError extends ExtractError {
+  constructor(target: string, options: ExtractErrorOptions = {}) {
+    super('FILE_NOT_FOUND', 404, `File not found: ${target}`, options);
+  }
+}
+
+/**
+ * URL被安全策略拒绝
+ */
+export class BlockedUrlError extends ExtractError {
+  constructor(message: string) {
+    super('BLOCKED_URL', 403, message);
+  }
+}
+
+/**
+ * 抓取超时
+ */
+export class TimeoutError extends ExtractError {
+  constructor(timeout: number) {
+    super('TIMEOUT', 504, `Request timed out after ${timeout}ms`, { retryable: true });
+  }
+}
+
+// 错误页状态对应的错误码、HTTP状态码和是否可重试
+const PAGE_STATE_ERRORS: Record<Exclude<PageState, 'ok'>, [ExtractErrorCode, number, boolean, string]> = {
+  deleted: ['PAGE_DELETED', 410, false, 'The page content has been deleted'],
+  login_required: ['LOGIN_REQUIRED', 403, false, 'The page requires login'],
+  captcha: ['CAPTCHA', 503, true, 'The page is a captcha or verification page'],
+  not_found: ['PAGE_NOT_FOUND', 404, false, 'The page does not exist'],
+};
+
+/**
+ * 页面本身是错误页(已删除、需要登录、验证码、软404),提取结果没有意义
+ */
+export class SoftErrorPageError extends ExtractError {
+  public readonly pageState: Exclude<PageState, 'ok'>;
+
+  constructor(pageState: Exclude<PageState, 'ok'>) {
+    const [code, status, retryable, message] = PAGE_STATE_ERRORS[pageState];
+    super(code, status, message, { retryable });
+    this.pageState = pageState;
+  }
+
+  public toJSON(): ErrorBody {
+    return { ...super.toJSON(), pageState: this.pageState };
+  }
+}
+
+/**
+ * 将任意错误转换为响应状态码和错误内容
+ * 未分类的错误视为服务内部错误
+ */
+export function toErrorResponse(error: unknown): { status: number; body: ErrorBody } {
+  if (error instanceof ExtractError) {
+    return { status: error.status, body: error.toJSON() };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: error instanceof Error ? error.message : 'Internal error',
+      code: 'INTERNAL_ERROR',
+      retryable: false
+    }
+  };
+}
@@ -1,13 +1,14 @@
 import { BaseExtractor } from '../BaseExtractor';
 import { type CheerioAPI, type CheerioNode, type CheerioElement, asElement } from '../../types/cheerio';
+import { type ExtractResult, type ExtractionContext, type ExtractorConfigOverrides, type ExtractRunOptions } from '../../types/extractor';
 import { calculateTextLength, cleanHtml } from '../../utils/extractor';
 
 export class ArticleExtractor extends BaseExtractor {
-  constructor() {
+  constructor(config: ExtractorConfigOverrides = {}) {
     super({
       minTextLength: 150, // 文章内容通常较长
       minScore: 25      // 文章评分要求更高
-    });
+    }, config);
   }
 
   /**
@@ -44,7 +45,10 @@ export class ArticleExtractor extends BaseExtractor {
   /**
    * 预处理
    */
-  protected preProcess($: CheerioAPI): void {
+  protected preProcess(ctx: ExtractionContext): void {
+    super.preProcess(ctx);
+    const { $ } = ctx;
+
     // 清理HTML
     cleanHtml($, {
       removeScripts: true,
@@ -68,11 +72,6 @@ export class ArticleExtractor extends BaseExtractor {
       if ($img.attr('data-original')) {
         $img.attr('src', $img.attr('data-original'));
       }
-      // 添加图片说明
-      const alt = $img.attr('alt');
-      if (alt) {
-        $img.after(`<figcaption class="image-caption">${alt}</figcaption>`);
-      }
     });
 
     // 处理视频
@@ -98,7 +97,7 @@ export class ArticleExtractor extends BaseExtractor {
   /**
    * 提取作者信息
    */
-  protected extractAuthor(): string {
+  protected extractAuthor(ctx: ExtractionContext): string {
     const authorSelectors = [
       'meta[name="author"]',
       'meta[property="article:author"]',
@@ -110,7 +109,7 @@ export class ArticleExtractor extends BaseExtractor {
     ];
 
     for (const selector of authorSelectors) {
-      const $author = this.$(selector);
+      const $author = ctx.original(selector);
       if ($author.length > 0) {
         if (selector.startsWith('meta')) {
           return $author.attr('content') || '';
@@ -125,7 +124,7 @@ export class ArticleExtractor extends BaseExtractor {
   /**
    * 提取发布时间
    */
-  protected extractPublishTime(): string {
+  protected extractPublishTime(ctx: ExtractionContext): string {
     const timeSelectors = [
       'meta[property="article:published_time"]',
       'meta[name="publishdate"]',
@@ -138,7 +137,7 @@ export class ArticleExtractor extends BaseExtractor {
     ];
 
     for (const selector of timeSelectors) {
-      const $time = this.$(selector);
+      const $time = ctx.original(selector);
       if ($time.length > 0) {
         if (selector.startsWith('meta')) {
           return $time.attr('content') || '';
@@ -156,73 +155,35 @@ export class ArticleExtractor extends BaseExtractor {
   /**
    * 重写提取方法
    */
-  public async extract(html: string, url: string) {
+  public async extract(html: string, url: string, runOptions?: ExtractRunOptions) {
     // 预处理HTML
     html = html
       .replace(/&nbsp;/g, ' ')
-      .replace(/&#160;/g, ' ')
-      .replace(/\s+/g, ' ');
-
-    // 获取base_url
-    const $ = this.$;
-    const baseHref = $('base[href]').attr('href');
-    const baseUrl = (baseHref && baseHref.startsWith('http')) ? baseHref : url;
-
-    // 特殊站点处理
-    this.handleSpecialSites(url);
+      .replace(/&#160;/g, ' ');
 
     // 提取内容
-    const result = await super.extract(html, baseUrl);
-
-    // 添加文章特有的元数据
-    result.metadata = {
-      ...result.metadata,
-      author: this.extractAuthor(),
-      publishTime: this.extractPublishTime(),
-      platform: 'article'
-    };
-
-    return result;
+    return super.extract(html, url, runOptions);
   }
 
   /**
-   * 处理特殊站点
+   * 提取文章特有的元数据
    */
-  private handleSpecialSites(url: string): void {
-    const $ = this.$;
-    
-    // CSDN博客
-    if (url.includes('blog.csdn.net')) {
-      $('#content_views .pre-numbering').remove();
-      $('.article-copyright').remove();
-    }
-    
-    // 简书
-    if (url.includes('jianshu.com')) {
-      $('.collapse-tips').remove();
-      $('.support-author').remove();
-    }
-    
-    // 知乎
-    if (url.includes('zhihu.com')) {
-      $('.ContentItem-actions').remove();
-      $('.Reward').remove();
-    }
-    
-    // 微信文章
-    if (url.includes('mp.weixin.qq.com')) {
-      $('#js_pc_qr_code').remove();
-      $('.qr_code_pc_outer').remove();
-    }
+  protected extractMetadata(ctx: ExtractionContext): ExtractResult['metadata'] {
+    return {
+      ...super.extractMetadata(ctx),
+      author: this.extractAuthor(ctx),
+      publishTime: this.extractPublishTime(ctx),
+      platform: 'article'
+    };
   }
 
   /**
    * 重写节点评分方法
    */
-  protected calculateNodeScore(node: CheerioNode): number {
-    let score = super.calculateNodeScore(node);
+  protected calculateNodeScore(ctx: ExtractionContext, node: CheerioNode): number {
+    let score = super.calculateNodeScore(ctx, node);
     
-    const $node = this.$(asElement(node));
+    const $node = ctx.$(asElement(node));
     
     // 文章主体加分
     if ($node.is('article') || $node.hasClass('article')) {
@@ -230,7 +191,7 @@ export class ArticleExtractor extends BaseExtractor {
     }
     
     // 内容长度评分
-    const textLength = calculateTextLength(this.$, node);
+    const textLength = calculateTextLength(ctx.$, node);
     if (textLength > 100) {
       score += Math.min(Math.floor(textLength / 100), 10);
     }
@@ -269,43 +230,31 @@ export class ArticleExtractor extends BaseExtractor {
   /**
    * 重写后处理方法
    */
-  protected postProcess(element: CheerioNode): void {
-    super.postProcess(element);
+  protected postProcess(ctx: ExtractionContext, element: CheerioNode): void {
+    super.postProcess(ctx, element);
     
-    const $elem = this.$(asElement(element));
+    const $elem = ctx.$(asElement(element));
 
     // 处理代码块
-    $elem.find('pre, code').each((_, block) => {
-      const $block = this.$(block);
-      const html = $block.html();
-      if (html) {
-        $block.html(html.replace(/\n/g, '<br>'));
-      }
-      $block.addClass('article-code');
-    });
+    $elem.find('pre, code').addClass('article-code');
 
     // 处理引用块
     $elem.find('blockquote').each((_, quote) => {
-      const $quote = this.$(quote);
+      const $quote = ctx.$(quote);
       $quote.addClass('article-quote');
     });
 
     // 处理图片
     $elem.find('img').each((_, img) => {
-      const $img = this.$(img);
-      // 添加图片容器
+      const $img = ctx.$(img);
+      // 添加图片容器,图片说明已在 processSpecialTags 中生成
       $img.wrap('<div class="article-image-container"></div>');
-      // 处理图片说明
-      const alt = $img.attr('alt');
-      if (alt) {
-        $img.after(`<div class="article-image-caption">${alt}</div>`);
-      }
     });
 
     // 处理标题层级
     let lastLevel = 1;
     $elem.find('h1, h2, h3, h4, h5, h6').each((_, heading) => {
-      const $heading = this.$(heading);
+      const $heading = ctx.$(heading);
       const level = parseInt(heading.tagName[1]);
       
       // 确保标题层级连续
@@ -320,7 +269,7 @@ export class ArticleExtractor extends BaseExtractor {
 
     // 规范化段落
     $elem.find('p').each((_, p) => {
-      const $p = this.$(p);
+      const $p = ctx.$(p);
       const text = $p.text().trim();
       // 移除空段落
       if (!text && !$p.find('img, video, iframe').length) {
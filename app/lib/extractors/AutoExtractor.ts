@@ -0,0 +1,43 @@
+import { BaseExtractor } from '../BaseExtractor';
+import { ReadabilityExtractor } from './ReadabilityExtractor';
+import { type ContentExtractor, type ExtractResult, type ExtractRunOptions } from '../../types/extractor';
+
+/**
+ * 优先使用内置提取器,未能定位主要内容(退化为body)时回退到 Readability
+ */
+export class AutoExtractor implements ContentExtractor {
+  private builtin: BaseExtractor;
+  private readability: ReadabilityExtractor;
+  
+  constructor(builtin: BaseExtractor, readability: ReadabilityExtractor) {
+    this.builtin = builtin;
+    this.readability = readability;
+  }
+  
+  /**
+   * 提取内容
+   */
+  public async extract(html: string, url: string, options?: ExtractRunOptions): Promise<ExtractResult> {
+    const result = await this.builtin.extract(html, url, options);
+    if (result.metadata?.strategy !== 'body') {
+      return result;
+    }
+    
+    console.log('Builtin extractor fell back to <body>, trying Readability');
+    try {
+      const fallback = await this.readability.extract(html, url);
+      return {
+        ...fallback,
+        metadata: {
+          // 保留内置提取器识别出的平台信息
+          platform: result.metadata?.platform,
+          ...fallback.metadata,
+          fallbackFrom: 'builtin'
+        }
+      };
+    } catch (error) {
+      console.error('Readability fallback failed:', error);
+      return result;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { load } from 'cheerio';
+import { escapeHtml, fencedCodeBlock } from '../../utils/format';
+import { getFileName } from '../../utils/url';
+import { type DocumentExtractor, type ExtractResult } from '../../types/extractor';
+import { type LoadedPage } from '../../types/source';
+
+/**
+ * JSON和XML文档的提取器
+ * 格式化后作为代码块输出,标题取自文档中的 title/name 字段或 <title> 元素
+ */
+export class DataExtractor implements DocumentExtractor {
+  private readonly kind: 'json' | 'xml';
+
+  constructor(kind: 'json' | 'xml') {
+    this.kind = kind;
+  }
+
+  public async extract(page: LoadedPage): Promise<ExtractResult> {
+    const { text, title } = this.kind === 'json' ? this.parseJson(page.html) : this.parseXml(page.html);
+
+    return {
+      title: title || getFileName(page.finalUrl),
+      content: `<pre><code class="language-${this.kind}">${escapeHtml(text)}</code></pre>`,
+      textContent: text,
+      html: page.html,
+      url: page.finalUrl,
+      markdown: fencedCodeBlock(text, this.kind),
+      metadata: {
+        contentKind: this.kind
+      }
+    };
+  }
+
+  /**
+   * 格式化JSON,解析失败时保留原文
+   */
+  private parseJson(raw: string): { text: string; title: string } {
+    try {
+      const data = JSON.parse(raw);
+      const title = data && typeof data === 'object' && !Array.isArray(data)
+        ? [data.title, data.name].find(value => typeof value === 'string') || ''
+        : '';
+      return { text: JSON.stringify(data, null, 2), title };
+    } catch {
+      return { text: raw.trim(), title: '' };
+    }
+  }
+
+  /**
+   * 读取XML的标题(RSS/Atom的频道标题等)
+   */
+  private parseXml(raw: string): { text: string; title: string } {
+    const $ = load(raw, { xmlMode: true });
+    return { text: raw.trim(), title: $('title').first().text().trim() };
+  }
+}
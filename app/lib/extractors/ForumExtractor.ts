@@ -1,17 +1,23 @@
 import { BaseExtractor } from '../BaseExtractor';
 import { type CheerioAPI, type CheerioNode, type CheerioElement, type Cheerio, type AnyNode, asElement } from '../../types/cheerio';
+import { type ExtractResult, type ExtractionContext, type ExtractorConfigOverrides, type ExtractRunOptions } from '../../types/extractor';
+import { defaultConfig, mergeConfig } from '../../config/extractor';
 import { calculateTextLength, cleanHtml } from '../../utils/extractor';
 
 export class ForumExtractor extends BaseExtractor {
   private uniqueIdAttr = 'data-unique-id';
-  private uniqueIdCounter = 0;
 
-  constructor() {
+  constructor(config: ExtractorConfigOverrides = {}) {
     super({
       minTextLength: 50,  // 论坛回复可能较短
       minScore: 15,      // 论坛内容评分要求较低
       includeComments: true  // 需要包含回复
-    });
+    }, mergeConfig<ExtractorConfigOverrides>({
+      clean: {
+        // 保留回复内容
+        removeClasses: defaultConfig.clean.removeClasses.filter(name => name !== 'comment' && name !== 'reply')
+      }
+    }, config));
   }
 
   /**
@@ -46,7 +52,10 @@ export class ForumExtractor extends BaseExtractor {
   /**
    * 预处理
    */
-  protected preProcess($: CheerioAPI): void {
+  protected preProcess(ctx: ExtractionContext): void {
+    super.preProcess(ctx);
+    const { $ } = ctx;
+
     // 清理HTML
     cleanHtml($, {
       removeScripts: true,
@@ -87,10 +96,12 @@ export class ForumExtractor extends BaseExtractor {
    * 为每个内容节点生成唯一ID
    */
   private generateUniqueIds($: CheerioAPI): void {
+    // 计数器只在当前文档内有效
+    let counter = 0;
     $('.post, .thread, .reply, .comment').each((_, elem) => {
       const $elem = $(elem);
       if (!$elem.attr(this.uniqueIdAttr)) {
-        $elem.attr(this.uniqueIdAttr, (++this.uniqueIdCounter).toString());
+        $elem.attr(this.uniqueIdAttr, (++counter).toString());
       }
     });
   }
@@ -98,7 +109,7 @@ export class ForumExtractor extends BaseExtractor {
   /**
    * 提取发帖时间
    */
-  protected extractPublishTime(): string {
+  protected extractPublishTime(ctx: ExtractionContext): string {
     const timeSelectors = [
       'meta[property="article:published_time"]',
       '.post-time',
@@ -110,7 +121,7 @@ export class ForumExtractor extends BaseExtractor {
     ];
 
     for (const selector of timeSelectors) {
-      const $time = this.$(selector);
+      const $time = ctx.original(selector);
       if ($time.length > 0) {
         if (selector.startsWith('meta')) {
           return $time.attr('content') || '';
@@ -128,7 +139,7 @@ export class ForumExtractor extends BaseExtractor {
   /**
    * 提取回复数
    */
-  protected extractReplyCount(): number {
+  protected extractReplyCount(ctx: ExtractionContext): number {
     const replySelectors = [
       '.reply-count',
       '.comment-count',
@@ -137,7 +148,7 @@ export class ForumExtractor extends BaseExtractor {
     ];
 
     for (const selector of replySelectors) {
-      const $count = this.$(selector);
+      const $count = ctx.original(selector);
       if ($count.length > 0) {
         const text = $count.first().text().trim();
         const count = parseInt(text.replace(/[^0-9]/g, ''));
@@ -148,14 +159,14 @@ export class ForumExtractor extends BaseExtractor {
     }
 
     // 计算回复元素数量
-    const replyElements = this.$('.reply-content, .comment-content, .response-content').length;
+    const replyElements = ctx.original('.reply-content, .comment-content, .response-content').length;
     return replyElements;
   }
 
   /**
    * 提取浏览数
    */
-  protected extractViewCount(): number {
+  protected extractViewCount(ctx: ExtractionContext): number {
     const viewSelectors = [
       '.view-count',
       '.views',
@@ -164,7 +175,7 @@ export class ForumExtractor extends BaseExtractor {
     ];
 
     for (const selector of viewSelectors) {
-      const $count = this.$(selector);
+      const $count = ctx.original(selector);
       if ($count.length > 0) {
         const text = $count.first().text().trim();
         const count = parseInt(text.replace(/[^0-9]/g, ''));
@@ -180,105 +191,72 @@ export class ForumExtractor extends BaseExtractor {
   /**
    * 重写提取方法
    */
-  public async extract(html: string, url: string) {
+  public async extract(html: string, url: string, runOptions?: ExtractRunOptions) {
     // 预处理HTML
     html = html
       .replace(/&nbsp;/g, ' ')
-      .replace(/&#160;/g, ' ')
-      .replace(/\s+/g, ' ');
-
-    // 获取base_url
-    const $ = this.$;
-    const baseHref = $('base[href]').attr('href');
-    const baseUrl = (baseHref && baseHref.startsWith('http')) ? baseHref : url;
+      .replace(/&#160;/g, ' ');
 
-    // 提取内容
-    const result = await super.extract(html, baseUrl);
+    return super.extract(html, url, runOptions);
+  }
 
-    // 处理主贴和回复
-    const mainPostId = this.findMainPostId(result.content);
-    
-    if (mainPostId) {
-      // 重新组织内容顺序
-      result.content = this.reorganizeContent(result.content, mainPostId);
-    }
-    
-    // 添加论坛特有的元数据
-    result.metadata = {
-      ...result.metadata,
-      publishTime: this.extractPublishTime(),
-      replyCount: this.extractReplyCount(),
-      viewCount: this.extractViewCount(),
+  /**
+   * 提取论坛特有的元数据
+   */
+  protected extractMetadata(ctx: ExtractionContext): ExtractResult['metadata'] {
+    return {
+      ...super.extractMetadata(ctx),
+      publishTime: this.extractPublishTime(ctx),
+      replyCount: this.extractReplyCount(ctx),
+      viewCount: this.extractViewCount(ctx),
       platform: 'forum'
     };
-
-    return result;
   }
 
   /**
-   * 查找主贴ID
+   * 查找主贴,找不到或主贴没有唯一ID时返回null
    */
-  private findMainPostId(content: string): string {
-    const $ = this.$;
-    const $content = $(content);
-
-    // 尝试从class查找
-    const $mainPost = $content.find('.first-post, .main-post, .original-post').first();
-    if ($mainPost.length) {
-      return $mainPost.attr(this.uniqueIdAttr) || '';
-    }
-
-    // 尝试从ID查找
-    const $postWithId = $content.find('[id*="post-1"], [id*="post_1"]').first();
-    if ($postWithId.length) {
-      return $postWithId.attr(this.uniqueIdAttr) || '';
-    }
-
-    // 使用第一个帖子作为主贴
-    const $firstPost = $content.find('.post, .thread').first();
-    return $firstPost.attr(this.uniqueIdAttr) || '';
+  private findMainPost($content: Cheerio<CheerioElement>): CheerioElement | null {
+    // 尝试从class查找,其次从ID查找,最后使用第一个帖子
+    const $mainPost = [
+      $content.find('.first-post, .main-post, .original-post').first(),
+      $content.find('[id*="post-1"], [id*="post_1"]').first(),
+      $content.find('.post, .thread').first()
+    ].find($candidate => $candidate.length);
+
+    return $mainPost?.is(`[${this.uniqueIdAttr}]`) ? $mainPost.get(0)! : null;
   }
 
   /**
-   * 重新组织内容顺序
+   * 重新组织内容顺序: 主贴在前,其余帖子按原顺序放入回复容器
+   * 依赖预处理生成的唯一ID,需在清理属性之前执行
    */
-  private reorganizeContent(content: string, mainPostId: string): string {
-    const $ = this.$;
-    const $content = $(content);
-    const $mainPost = $content.find(`[${this.uniqueIdAttr}="${mainPostId}"]`);
-    
-    if (!$mainPost.length) return content;
-
-    // 创建新的容器
-    const $container = $('<div class="forum-thread"></div>');
-    
-    // 添加主贴
-    $container.append($mainPost.clone());
-    
-    // 添加回复
-    const $replies = $content.find(`[${this.uniqueIdAttr}]`).filter(function(this: CheerioElement) {
-      const id = $(this).attr('data-unique-id');
-      return id !== undefined && id !== mainPostId;
+  private reorganizeContent($: CheerioAPI, $content: Cheerio<CheerioElement>): void {
+    const mainPost = this.findMainPost($content);
+    if (!mainPost) return;
+
+    // 回复取与主贴不相互包含的最外层帖子,嵌套的回复随所在帖子一起移动,包住主贴的容器不算回复
+    const $replies = $content.find(`[${this.uniqueIdAttr}]`).filter((_, post) => {
+      if (post === mainPost || $.contains(post, mainPost) || $.contains(mainPost, post)) {
+        return false;
+      }
+      return $(post).parentsUntil($content).filter(`[${this.uniqueIdAttr}]`).toArray()
+        .every(parent => $.contains(parent, mainPost));
     });
 
+    $content.empty().append(mainPost);
     if ($replies.length) {
-      const $repliesContainer = $('<div class="forum-replies"></div>');
-      $replies.each((_, reply) => {
-        $repliesContainer.append($(reply).clone());
-      });
-      $container.append($repliesContainer);
+      $content.append($('<div class="forum-replies"></div>').append($replies));
     }
-
-    return $container.html() || content;
   }
 
   /**
    * 重写节点评分方法
    */
-  protected calculateNodeScore(node: CheerioNode): number {
-    let score = super.calculateNodeScore(node);
+  protected calculateNodeScore(ctx: ExtractionContext, node: CheerioNode): number {
+    let score = super.calculateNodeScore(ctx, node);
     
-    const $node = this.$(asElement(node));
+    const $node = ctx.$(asElement(node));
     
     // 主贴内容加分
     if ($node.hasClass('first-post') || $node.hasClass('main-post')) {
@@ -301,7 +279,7 @@ export class ForumExtractor extends BaseExtractor {
     }
     
     // 内容长度评分
-    const textLength = calculateTextLength(this.$, node);
+    const textLength = calculateTextLength(ctx.$, node);
     if (textLength > 100) {
       score += Math.min(Math.floor(textLength / 200), 8);
     }
@@ -312,37 +290,28 @@ export class ForumExtractor extends BaseExtractor {
   /**
    * 重写后处理方法
    */
-  protected postProcess(element: CheerioNode): void {
-    super.postProcess(element);
-    
-    const $elem = this.$(asElement(element));
+  protected postProcess(ctx: ExtractionContext, element: CheerioNode): void {
+    const $elem = ctx.$(asElement(element));
+
+    // 主贴和回复的唯一ID会在清理属性时移除,需先重排
+    this.reorganizeContent(ctx.$, $elem);
+
+    super.postProcess(ctx, element);
 
     // 处理引用内容
     $elem.find('.quote, blockquote, .cited').each((_, quote) => {
-      const $quote = this.$(quote);
+      const $quote = ctx.$(quote);
       $quote.addClass('forum-quote');
     });
 
     // 处理代码块
-    $elem.find('pre, code').each((_, block) => {
-      const $block = this.$(block);
-      const html = $block.html();
-      if (html) {
-        $block.html(html.replace(/\n/g, '<br>'));
-      }
-      $block.addClass('forum-code');
-    });
+    $elem.find('pre, code').addClass('forum-code');
 
     // 处理图片
     $elem.find('img').each((_, img) => {
-      const $img = this.$(img);
-      // 添加图片容器
+      const $img = ctx.$(img);
+      // 添加图片容器,图片说明已在 processSpecialTags 中生成
       $img.wrap('<div class="forum-image-container"></div>');
-      // 处理图片说明
-      const alt = $img.attr('alt');
-      if (alt) {
-        $img.after(`<div class="forum-image-caption">${alt}</div>`);
-      }
     });
 
     // 移除多余的空行
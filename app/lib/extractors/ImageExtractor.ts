@@ -0,0 +1,51 @@
+import { imageSize } from 'image-size';
+import { escapeHtml } from '../../utils/format';
+import { getFileName } from '../../utils/url';
+import { type DocumentExtractor, type ExtractResult } from '../../types/extractor';
+import { type LoadedPage } from '../../types/source';
+
+/**
+ * 图片的提取器
+ * 返回只包含这一张图片的结果,并附带图片尺寸
+ */
+export class ImageExtractor implements DocumentExtractor {
+  public async extract(page: LoadedPage): Promise<ExtractResult> {
+    const title = getFileName(page.finalUrl);
+    const size = this.readSize(page.body);
+    const dimensions = size ? ` width="${size.width}" height="${size.height}"` : '';
+
+    return {
+      title,
+      content: `<figure><img src="${escapeHtml(page.finalUrl)}" alt="${escapeHtml(title)}"${dimensions}></figure>`,
+      textContent: '',
+      html: '',
+      url: page.finalUrl,
+      markdown: `![${title}](${page.finalUrl})`,
+      metadata: {
+        contentKind: 'image',
+        image: {
+          url: page.finalUrl,
+          width: size?.width,
+          height: size?.height,
+          type: size?.type,
+          bytes: page.body?.byteLength
+        }
+      }
+    };
+  }
+
+  /**
+   * 从文件头读取图片尺寸,无法识别时返回null
+   */
+  private readSize(body?: Uint8Array): { width: number; height: number; type?: string } | null {
+    if (!body || body.byteLength === 0) {
+      return null;
+    }
+    try {
+      const { width, height, type } = imageSize(body);
+      return { width, height, type };
+    } catch {
+      return null;
+    }
+  }
+}
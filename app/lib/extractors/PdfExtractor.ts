@@ -0,0 +1,215 @@
+import { InvalidDocumentError, NoMainContentError } from '../errors';
+import { escapeHtml } from '../../utils/format';
+import { getFileName } from '../../utils/url';
+import { type DocumentExtractor, type ExtractResult } from '../../types/extractor';
+import { type LoadedPage } from '../../types/source';
+
+// 字号至少是正文字号的多少倍时视为标题
+const HEADING_SIZE_RATIO = 1.15;
+
+// 最多识别的标题层级
+const MAX_HEADING_LEVELS = 3;
+
+// 行间距超过字号的多少倍时视为新段落
+const PARAGRAPH_GAP_RATIO = 1.8;
+
+// 同一行内文本片段的纵向偏差容忍度
+const LINE_TOLERANCE = 2;
+
+// 一行文本
+interface PdfLine {
+  text: string;
+  // 字号
+  size: number;
+  // 基线纵坐标(PDF坐标系,向上递增)
+  y: number;
+}
+
+// 一页的文本
+interface PdfPageText {
+  number: number;
+  lines: PdfLine[];
+}
+
+// pdf.js 返回的文本片段
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  hasEOL?: boolean;
+}
+
+/**
+ * PDF文档的提取器
+ * 使用 pdf.js 在本地解析,按页提取文本,根据字号推断标题,并读取文档信息
+ */
+export class PdfExtractor implements DocumentExtractor {
+  public async extract(page: LoadedPage): Promise<ExtractResult> {
+    if (!page.body || page.body.byteLength === 0) {
+      throw new NoMainContentError('PDF document is empty');
+    }
+
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const document = await pdfjs.getDocument({
+      // pdf.js 会转移传入的缓冲区,复制一份避免影响调用方
+      data: new Uint8Array(page.body),
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      // 只提取文本,不需要字体数据,忽略相关警告
+      verbosity: pdfjs.VerbosityLevel.ERRORS
+    }).promise.catch((error: unknown) => {
+      // 文档损坏、加密或不是PDF
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new InvalidDocumentError(`Invalid PDF document: ${reason}`, { cause: error });
+    });
+
+    try {
+      const pages: PdfPageText[] = [];
+      for (let number = 1; number <= document.numPages; number++) {
+        const pdfPage = await document.getPage(number);
+        const { items } = await pdfPage.getTextContent();
+        pages.push({ number, lines: this.groupLines(items as PdfTextItem[]) });
+        pdfPage.cleanup();
+      }
+
+      const pageTexts = pages.map(({ number, lines }) => ({
+        number,
+        text: lines.map(line => line.text).join('\n')
+      }));
+      const textContent = pageTexts.map(item => item.text).filter(Boolean).join('\n\n');
+      if (!textContent.trim()) {
+        throw new NoMainContentError('PDF contains no extractable text');
+      }
+
+      const headingLevels = this.getHeadingLevels(pages);
+      const content = pages.map(item => this.renderPage(item, headingLevels)).join('\n');
+
+      const { info } = await document.getMetadata() as unknown as { info: Record<string, unknown> };
+      const infoText = (key: string) => typeof info?.[key] === 'string' ? (info[key] as string).trim() : '';
+      const firstHeading = pages.flatMap(item => item.lines).find(line => headingLevels.has(line.size));
+
+      return {
+        title: infoText('Title') || firstHeading?.text || getFileName(page.finalUrl),
+        content,
+        textContent,
+        html: '',
+        url: page.finalUrl,
+        metadata: {
+          contentKind: 'pdf',
+          author: infoText('Author'),
+          publishTime: this.parseDate(pdfjs.PDFDateString, infoText('CreationDate')),
+          pdf: {
+            pageCount: document.numPages,
+            subject: infoText('Subject') || undefined,
+            keywords: infoText('Keywords') || undefined,
+            creator: infoText('Creator') || undefined,
+            producer: infoText('Producer') || undefined,
+            modifiedAt: this.parseDate(pdfjs.PDFDateString, infoText('ModDate')) || undefined,
+            pages: pageTexts
+          }
+        }
+      };
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * 将文本片段按基线合并为行
+   */
+  private groupLines(items: PdfTextItem[]): PdfLine[] {
+    const lines: PdfLine[] = [];
+    let current: PdfLine | null = null;
+
+    for (const item of items) {
+      if (!('str' in item)) {
+        continue;
+      }
+      const [, , c, d, , y] = item.transform;
+      const size = Math.round(Math.hypot(c, d) * 10) / 10;
+
+      if (current && Math.abs(current.y - y) <= LINE_TOLERANCE) {
+        current.text += item.str;
+        current.size = Math.max(current.size, size);
+      } else if (item.str.trim()) {
+        current = { text: item.str, size, y };
+        lines.push(current);
+      }
+
+      if (item.hasEOL) {
+        current = null;
+      }
+    }
+
+    return lines
+      .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+      .filter(line => line.text);
+  }
+
+  /**
+   * 根据字号推断标题层级
+   * 按字符数统计最常见的字号作为正文字号,更大的字号从大到小依次对应 h1-h3
+   * @returns 字号到标题层级的映射
+   */
+  private getHeadingLevels(pages: PdfPageText[]): Map<number, number> {
+    const sizeWeights = new Map<number, number>();
+    for (const line of pages.flatMap(item => item.lines)) {
+      sizeWeights.set(line.size, (sizeWeights.get(line.size) || 0) + line.text.length);
+    }
+
+    const bodySize = [...sizeWeights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+    const headingSizes = [...sizeWeights.keys()]
+      .filter(size => size >= bodySize * HEADING_SIZE_RATIO)
+      .sort((a, b) => b - a)
+      .slice(0, MAX_HEADING_LEVELS);
+
+    return new Map(headingSizes.map((size, index) => [size, index + 1]));
+  }
+
+  /**
+   * 将一页文本渲染为HTML,相邻且间距较小的正文行合并为段落
+   */
+  private renderPage(page: PdfPageText, headingLevels: Map<number, number>): string {
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let previous: PdfLine | null = null;
+
+    const flush = () => {
+      if (paragraph.length) {
+        blocks.push(`<p>${escapeHtml(paragraph.join(' '))}</p>`);
+        paragraph = [];
+      }
+    };
+
+    for (const line of page.lines) {
+      const level = headingLevels.get(line.size);
+      if (level) {
+        flush();
+        blocks.push(`<h${level}>${escapeHtml(line.text)}</h${level}>`);
+      } else {
+        if (previous && (headingLevels.has(previous.size) || previous.y - line.y > line.size * PARAGRAPH_GAP_RATIO)) {
+          flush();
+        }
+        paragraph.push(line.text);
+      }
+      previous = line;
+    }
+    flush();
+
+    return `<section class="pdf-page" data-page="${page.number}">\n${blocks.join('\n')}\n</section>`;
+  }
+
+  /**
+   * 将PDF日期字符串转换为ISO格式
+   */
+  private parseDate(
+    dateString: { toDateObject(input: string): Date | null },
+    value: string
+  ): string {
+    if (!value) {
+      return '';
+    }
+    const date = dateString.toDateObject(value);
+    return date ? date.toISOString() : '';
+  }
+}
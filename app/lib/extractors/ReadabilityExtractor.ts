@@ -0,0 +1,46 @@
+import { JSDOM } from 'jsdom';
+import { Readability } from '@mozilla/readability';
+import { NoMainContentError } from '../errors';
+import { type ContentExtractor, type ExtractResult } from '../../types/extractor';
+
+/**
+ * 基于 Mozilla Readability 的提取器
+ */
+export class ReadabilityExtractor implements ContentExtractor {
+  /**
+   * 提取内容
+   */
+  public async extract(html: string, url: string): Promise<ExtractResult> {
+    // JSDOM 只接受合法的绝对URL,用于解析页面中的相对链接
+    const dom = new JSDOM(html, this.isAbsoluteUrl(url) ? { url } : {});
+    const article = new Readability(dom.window.document).parse();
+    
+    if (!article) {
+      throw new NoMainContentError('Readability could not extract content from the page');
+    }
+    
+    return {
+      title: article.title || '',
+      content: article.content || '',
+      textContent: (article.textContent || '').trim(),
+      html,
+      url,
+      metadata: {
+        author: article.byline || '',
+        publishTime: article.publishedTime || '',
+        excerpt: article.excerpt || '',
+        siteName: article.siteName || '',
+        engine: 'readability'
+      }
+    };
+  }
+  
+  private isAbsoluteUrl(url: string): boolean {
+    try {
+      new URL(url);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { micromark } from 'micromark';
+import { ContentTooShortError } from '../errors';
+import { escapeHtml, extractText } from '../../utils/format';
+import { getFileName } from '../../utils/url';
+import { type DocumentExtractor, type ExtractResult } from '../../types/extractor';
+import { type LoadedPage } from '../../types/source';
+
+// 从首行推断标题时的最大长度
+const MAX_TITLE_LENGTH = 120;
+
+/**
+ * 纯文本和Markdown文档的提取器
+ * 原文直接作为Markdown输出,HTML输出由原文转换
+ */
+export class TextExtractor implements DocumentExtractor {
+  private readonly kind: 'text' | 'markdown';
+
+  constructor(kind: 'text' | 'markdown') {
+    this.kind = kind;
+  }
+
+  public async extract(page: LoadedPage): Promise<ExtractResult> {
+    const text = page.html.replace(/\r\n?/g, '\n');
+    if (!text.trim()) {
+      throw new ContentTooShortError('Document is empty');
+    }
+
+    const content = this.kind === 'markdown' ? micromark(text) : this.textToHtml(text);
+
+    return {
+      title: this.extractTitle(text) || getFileName(page.finalUrl),
+      content,
+      textContent: this.kind === 'markdown' ? extractText(content) : text.trim(),
+      html: page.html,
+      url: page.finalUrl,
+      markdown: text.trim(),
+      metadata: {
+        contentKind: this.kind
+      }
+    };
+  }
+
+  /**
+   * Markdown取第一个一级或二级标题,纯文本取第一个非空的短行
+   */
+  private extractTitle(text: string): string {
+    if (this.kind === 'markdown') {
+      const heading = text.match(/^#{1,2}\s+(.+?)\s*#*\s*$/m);
+      if (heading) {
+        return heading[1].trim();
+      }
+    }
+
+    const firstLine = text.split('\n').map(line => line.trim()).find(Boolean) || '';
+    return firstLine.length <= MAX_TITLE_LENGTH ? firstLine.replace(/^#+\s*/, '') : '';
+  }
+
+  /**
+   * 按空行分段,段内换行保留为 <br>
+   */
+  private textToHtml(text: string): string {
+    return text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+  }
+}
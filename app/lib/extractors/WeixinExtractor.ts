@@ -1,21 +1,29 @@
 import { BaseExtractor } from '../BaseExtractor';
+import { SiteRuleRegistry } from '../SiteRuleRegistry';
 import { type CheerioAPI, type CheerioNode, type CheerioElement, asElement } from '../../types/cheerio';
+import { type ExtractResult, type ExtractionContext, type ExtractorConfigOverrides, type ExtractRunOptions } from '../../types/extractor';
+import { defaultConfig, mergeConfig } from '../../config/extractor';
 import { calculateTextLength, cleanHtml } from '../../utils/extractor';
 
 export class WeixinExtractor extends BaseExtractor {
-  constructor() {
+  constructor(config: ExtractorConfigOverrides = {}) {
     super({
       minTextLength: 100,  // 微信文章通常较长
       minScore: 20,       // 评分要求适中
       includeComments: false  // 不包含评论
-    });
+    }, mergeConfig<ExtractorConfigOverrides>({
+      clean: {
+        // 保留视频播放器
+        removeTags: defaultConfig.clean.removeTags.filter(tag => tag !== 'iframe')
+      }
+    }, config));
   }
 
   /**
    * 检查是否可以处理该URL
    */
   public canHandle(url: string): boolean {
-    return url.includes('mp.weixin.qq.com');
+    return SiteRuleRegistry.match(url)?.type === 'weixin';
   }
 
   /**
@@ -35,7 +43,10 @@ export class WeixinExtractor extends BaseExtractor {
   /**
    * 预处理
    */
-  protected preProcess($: CheerioAPI): void {
+  protected preProcess(ctx: ExtractionContext): void {
+    super.preProcess(ctx);
+    const { $ } = ctx;
+
     // 清理HTML
     cleanHtml($, {
       removeScripts: true,
@@ -54,16 +65,6 @@ export class WeixinExtractor extends BaseExtractor {
 
     // 处理样式
     this.processStyles($);
-
-    // 调试日志
-    console.log('Available content elements:');
-    this.getCustomSelectors().forEach(selector => {
-      const elements = $(selector);
-      console.log(`${selector}: ${elements.length} elements found`);
-      if (elements.length > 0) {
-        console.log(`Content preview for ${selector}:`, elements.first().text().slice(0, 100));
-      }
-    });
   }
 
   /**
@@ -118,12 +119,6 @@ export class WeixinExtractor extends BaseExtractor {
         'display': 'block',
         'margin': '10px auto'
       });
-      
-      // 添加图片说明
-      const imgDesc = $img.attr('alt') || $img.attr('data-backh');
-      if (imgDesc) {
-        $img.after(`<div class="weixin-img-desc">${imgDesc}</div>`);
-      }
     });
   }
 
@@ -180,7 +175,7 @@ export class WeixinExtractor extends BaseExtractor {
   /**
    * 提取作者信息
    */
-  protected extractAuthor(): string {
+  protected extractAuthor(ctx: ExtractionContext): string {
     const authorSelectors = [
       '#js_name',
       '.rich_media_meta_nickname',
@@ -189,7 +184,7 @@ export class WeixinExtractor extends BaseExtractor {
     ];
 
     for (const selector of authorSelectors) {
-      const $author = this.$(selector);
+      const $author = ctx.original(selector);
       if ($author.length > 0) {
         if (selector.startsWith('meta')) {
           return $author.attr('content') || '';
@@ -204,7 +199,7 @@ export class WeixinExtractor extends BaseExtractor {
   /**
    * 提取发布时间
    */
-  protected extractPublishTime(): string {
+  protected extractPublishTime(ctx: ExtractionContext): string {
     const timeSelectors = [
       '#publish_time',
       '#post-date',
@@ -214,7 +209,7 @@ export class WeixinExtractor extends BaseExtractor {
     ];
 
     for (const selector of timeSelectors) {
-      const $time = this.$(selector);
+      const $time = ctx.original(selector);
       if ($time.length > 0) {
         if (selector.startsWith('meta')) {
           return $time.attr('content') || '';
@@ -229,7 +224,7 @@ export class WeixinExtractor extends BaseExtractor {
   /**
    * 提取阅读数
    */
-  protected extractReadCount(): number {
+  protected extractReadCount(ctx: ExtractionContext): number {
     const countSelectors = [
       '#js_read_count',
       '.read_count',
@@ -237,7 +232,7 @@ export class WeixinExtractor extends BaseExtractor {
     ];
 
     for (const selector of countSelectors) {
-      const $count = this.$(selector);
+      const $count = ctx.original(selector);
       if ($count.length > 0) {
         const text = $count.first().text().trim();
         const count = parseInt(text.replace(/[^0-9]/g, ''));
@@ -253,35 +248,36 @@ export class WeixinExtractor extends BaseExtractor {
   /**
    * 重写提取方法
    */
-  public async extract(html: string, url: string) {
+  public async extract(html: string, url: string, runOptions?: ExtractRunOptions) {
     // 预处理HTML
     html = html
       .replace(/&nbsp;/g, ' ')
-      .replace(/&#160;/g, ' ')
-      .replace(/\s+/g, ' ');
+      .replace(/&#160;/g, ' ');
 
     // 提取内容
-    const result = await super.extract(html, url);
+    return super.extract(html, url, runOptions);
+  }
 
-    // 添加微信文章特有的元数据
-    result.metadata = {
-      ...result.metadata,
-      author: this.extractAuthor(),
-      publishTime: this.extractPublishTime(),
-      readCount: this.extractReadCount(),
+  /**
+   * 提取微信文章特有的元数据
+   */
+  protected extractMetadata(ctx: ExtractionContext): ExtractResult['metadata'] {
+    return {
+      ...super.extractMetadata(ctx),
+      author: this.extractAuthor(ctx),
+      publishTime: this.extractPublishTime(ctx),
+      readCount: this.extractReadCount(ctx),
       platform: 'weixin'
     };
-
-    return result;
   }
 
   /**
    * 重写节点评分方法
    */
-  protected calculateNodeScore(node: CheerioNode): number {
-    let score = super.calculateNodeScore(node);
+  protected calculateNodeScore(ctx: ExtractionContext, node: CheerioNode): number {
+    let score = super.calculateNodeScore(ctx, node);
     
-    const $node = this.$(asElement(node));
+    const $node = ctx.$(asElement(node));
     
     // 微信文章主体加分
     if ($node.attr('id') === 'js_content' || $node.hasClass('rich_media_content')) {
@@ -289,7 +285,7 @@ export class WeixinExtractor extends BaseExtractor {
     }
     
     // 内容长度评分
-    const textLength = calculateTextLength(this.$, node);
+    const textLength = calculateTextLength(ctx.$, node);
     if (textLength > 100) {
       score += Math.min(Math.floor(textLength / 100), 10);
     }
@@ -317,37 +313,30 @@ export class WeixinExtractor extends BaseExtractor {
   /**
    * 重写后处理方法
    */
-  protected postProcess(element: CheerioNode): void {
-    super.postProcess(element);
+  protected postProcess(ctx: ExtractionContext, element: CheerioNode): void {
+    super.postProcess(ctx, element);
     
-    const $elem = this.$(asElement(element));
+    const $elem = ctx.$(asElement(element));
 
     // 处理代码块
-    $elem.find('pre, code').each((_, block) => {
-      const $block = this.$(block);
-      const html = $block.html();
-      if (html) {
-        $block.html(html.replace(/\n/g, '<br>'));
-      }
-      $block.addClass('weixin-code');
-    });
+    $elem.find('pre, code').addClass('weixin-code');
 
     // 处理引用块
     $elem.find('blockquote').each((_, quote) => {
-      const $quote = this.$(quote);
+      const $quote = ctx.$(quote);
       $quote.addClass('weixin-quote');
     });
 
     // 处理图片
     $elem.find('img').each((_, img) => {
-      const $img = this.$(img);
+      const $img = ctx.$(img);
       // 添加图片容器
       $img.wrap('<div class="weixin-img-container"></div>');
     });
 
     // 处理视频
     $elem.find('iframe').each((_, iframe) => {
-      const $iframe = this.$(iframe);
+      const $iframe = ctx.$(iframe);
       $iframe.wrap('<div class="weixin-video-container"></div>');
     });
 
@@ -0,0 +1,267 @@
+import { ProxyAgent, type Dispatcher } from 'undici';
+import { defaultFetchConfig } from '../config/fetcher';
+import { mergeConfig } from '../config/extractor';
+import { type FetchConfig, type FetchResult } from '../types/fetcher';
+import { BlockedUrlError, ExtractError, FetchFailedError, TimeoutError } from './errors';
+import { assertUrlAllowed } from './urlGuard';
+import { matchHost } from '../utils/url';
+
+// 需要跟随的重定向状态码
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// 跨域重定向时需要移除的凭据类请求头
+const CREDENTIAL_HEADERS = ['cookie', 'authorization'];
+
+/**
+ * 判断状态码是否值得重试
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * 计算下次重试前的等待时间
+ * 优先使用 Retry-After 头(秒),否则按指数退避
+ */
+function getRetryDelay(attempt: number, config: FetchConfig, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : config.retryDelay * 2 ** attempt;
+  return Math.min(delay, config.maxRetryDelay);
+}
+
+/**
+ * 等待指定时间,超时信号触发时提前结束
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 读取响应内容,超过字节上限时中止
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+    await response.body?.cancel();
+    throw new FetchFailedError(`Response body exceeds ${maxBytes} bytes`, { retryable: false });
+  }
+
+  if (!response.body) {
+    return new Uint8Array();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new FetchFailedError(`Response body exceeds ${maxBytes} bytes`, { retryable: false });
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * 生成请求头
+ * Cookie 和 Authorization 只发送给原始URL所在的源,跨域重定向后移除
+ */
+function buildHeaders(config: FetchConfig, url: string, originalUrl: string): Record<string, string> {
+  // 请求头名称不区分大小写,后出现的(本次请求传入的)覆盖默认值
+  const headers: Record<string, string> = {};
+  const names = new Map<string, string>();
+  for (const [name, value] of Object.entries(config.headers)) {
+    const previous = names.get(name.toLowerCase());
+    if (previous) {
+      delete headers[previous];
+    }
+    names.set(name.toLowerCase(), name);
+    headers[name] = value;
+  }
+
+  if (config.cookie) {
+    delete headers[names.get('cookie') || 'Cookie'];
+    headers['Cookie'] = config.cookie;
+  }
+
+  if (new URL(url).origin !== new URL(originalUrl).origin) {
+    for (const name of Object.keys(headers)) {
+      if (CREDENTIAL_HEADERS.includes(name.toLowerCase())) {
+        delete headers[name];
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * 创建代理
+ * 代理地址同样需要通过安全校验,除非其主机在 allowedProxies 中
+ */
+async function createProxyAgent(config: FetchConfig): Promise<ProxyAgent | undefined> {
+  if (!config.proxy) {
+    return undefined;
+  }
+
+  let proxy: URL;
+  try {
+    proxy = new URL(config.proxy);
+  } catch {
+    throw new BlockedUrlError('Invalid proxy URL');
+  }
+  if (proxy.protocol !== 'http:' && proxy.protocol !== 'https:') {
+    throw new BlockedUrlError(`Proxy protocol not allowed: ${proxy.protocol}`);
+  }
+
+  const hostname = proxy.hostname.toLowerCase();
+  if (!config.allowedProxies.some(pattern => matchHost(pattern, hostname))) {
+    await assertUrlAllowed(proxy.origin, { allowedHosts: [], deniedHosts: config.deniedHosts });
+  }
+
+  return new ProxyAgent(proxy.href);
+}
+
+/**
+ * 请求单个URL(不跟随重定向),遇到 429/5xx 或网络错误时按指数退避重试
+ */
+async function requestWithRetry(
+  url: string,
+  headers: Record<string, string>,
+  config: FetchConfig,
+  signal: AbortSignal,
+  dispatcher?: Dispatcher
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+    try {
+      response = await fetch(url, {
+        headers,
+        redirect: 'manual',
+        credentials: 'omit',
+        referrerPolicy: 'no-referrer',
+        signal,
+        // Node 内置的 fetch 支持通过 dispatcher 指定代理
+        dispatcher
+      } as RequestInit);
+    } catch (error) {
+      // 超时不再重试
+      if (signal.aborted || attempt >= config.retries) {
+        throw error;
+      }
+      console.warn('Fetch failed, retrying:', url, error instanceof Error ? error.message : error);
+      await sleep(getRetryDelay(attempt, config), signal);
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= config.retries) {
+      return response;
+    }
+
+    console.warn('Retryable status, retrying:', url, response.status);
+    await response.body?.cancel();
+    await sleep(getRetryDelay(attempt, config, response), signal);
+  }
+}
+
+/**
+ * 抓取页面
+ * 手动跟随重定向以记录完整的重定向链,并在每一跳前校验URL是否允许抓取
+ * 超时时间覆盖整个抓取过程
+ * 请求头、Cookie和代理只作用于本次抓取,不会写入日志
+ * @param url 页面URL
+ * @param options 覆盖默认抓取配置
+ */
+export async function fetchPage(url: string, options: Partial<FetchConfig> = {}): Promise<FetchResult> {
+  const config = mergeConfig(defaultFetchConfig, options);
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(config.timeout)),
+    config.timeout
+  );
+
+  const redirectChain = [url];
+  let currentUrl = url;
+  let dispatcher: ProxyAgent | undefined;
+
+  try {
+    dispatcher = await createProxyAgent(config);
+
+    while (true) {
+      // 每一跳都重新校验,防止重定向到内网地址
+      await assertUrlAllowed(currentUrl, config);
+      const headers = buildHeaders(config, currentUrl, url);
+      const response = await requestWithRetry(currentUrl, headers, config, controller.signal, dispatcher);
+      const location = response.headers.get('location');
+
+      if (REDIRECT_STATUSES.includes(response.status) && location) {
+        await response.body?.cancel();
+        if (redirectChain.length > config.maxRedirects) {
+          throw new FetchFailedError(`Too many redirects (more than ${config.maxRedirects})`, { retryable: false });
+        }
+        currentUrl = new URL(location, currentUrl).href;
+        redirectChain.push(currentUrl);
+        continue;
+      }
+
+      const body = response.ok ? await readBody(response, config.maxBytes) : new Uint8Array();
+      if (!response.ok) {
+        await response.body?.cancel();
+      }
+
+      return {
+        url,
+        finalUrl: currentUrl,
+        redirectChain,
+        status: response.status,
+        contentType: response.headers.get('content-type'),
+        headers: response.headers,
+        body
+      };
+    }
+  } catch (error) {
+    // 超时中止时抛出超时错误,而不是底层的 AbortError
+    if (controller.signal.aborted) {
+      throw controller.signal.reason;
+    }
+    if (error instanceof ExtractError) {
+      throw error;
+    }
+    // 重试后仍然失败的网络错误,fetch 的具体原因在 cause 中
+    const reason = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    const message = reason instanceof Error ? reason.message : String(reason);
+    throw new FetchFailedError(`Failed to fetch URL: ${message}`, { cause: error });
+  } finally {
+    clearTimeout(timer);
+    await dispatcher?.close();
+  }
+}
@@ -0,0 +1,471 @@
+import { load } from 'cheerio';
+import { CLASS_NAME_PATTERN, TAG_NAME_PATTERN } from './BaseExtractor';
+import { ExtractorFactory } from './ExtractorFactory';
+import { SiteRuleRegistry } from './SiteRuleRegistry';
+import { PageSourceFactory } from './PageSourceFactory';
+import { ExtractionCache } from './ExtractionCache';
+import { embedArchiveImages, parseArchive } from './archive';
+import { PageClassifier } from './PageClassifier';
+import { ContentTooShortError, NoMainContentError, SoftErrorPageError, UnsupportedContentTypeError } from './errors';
+import { type ArchiveImageMode } from '../types/archive';
+import { type CacheMode, type CacheStatus } from '../types/cache';
+import { type ExtractResult, type ExtractionEngine, type ExtractorConfigOverrides, type MarkdownOptions, type TableMode, type WebsiteType } from '../types/extractor';
+import { type RequestFetchOptions } from '../types/fetcher';
+import { type LoadedPage } from '../types/source';
+import { detectContentKind, getMimeType } from '../utils/contentType';
+import { decodeHtml } from '../utils/encoding';
+import { convertToBlocks } from '../utils/blocks';
+import { convertToMarkdown, extractText } from '../utils/format';
+
+/**
+ * 判断网页类型
+ * 站点规则指定了提取器类型时直接使用,否则按页面结构判断,不根据URL中的字样猜测
+ */
+export function detectPageType(url: string, html: string): WebsiteType {
+  // 检查站点规则
+  const rule = SiteRuleRegistry.match(url);
+  if (rule?.type) {
+    return rule.type;
+  }
+
+  const $ = load(html);
+  
+  // 检查论坛特征
+  const forumFeatures = [
+    '.post',
+    '.thread',
+    '.topic',
+    '.forum',
+    '.reply',
+    '.comment-list',
+    '#thread',
+    '#forum'
+  ];
+  
+  for (const selector of forumFeatures) {
+    if ($(selector).length > 0) {
+      return 'forum';
+    }
+  }
+  
+  // 默认为文章
+  return 'article';
+}
+
+/**
+ * 从指定来源加载页面
+ * @param target URL或文件路径
+ * @param source 来源名称,默认通过HTTP抓取
+ * @param options 本次请求的抓取选项
+ */
+export async function loadPage(
+  target: string,
+  source: string = 'http',
+  options: RequestFetchOptions = {}
+): Promise<LoadedPage> {
+  return PageSourceFactory.getSource(source).load(target, options);
+}
+
+/**
+ * 校验页面类型参数
+ */
+export function isWebsiteType(value: unknown): value is WebsiteType {
+  return value === 'article' || value === 'forum' || value === 'weixin';
+}
+
+/**
+ * 校验请求中的配置覆盖项
+ * @returns 校验通过的覆盖项,未传入时返回undefined
+ */
+export function parseConfigOverrides(value: unknown): ExtractorConfigOverrides | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const config = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('config must be a JSON object');
+  }
+
+  validateCleanNames(config.clean?.removeTags, TAG_NAME_PATTERN, 'clean.removeTags');
+  validateCleanNames(config.clean?.removeClasses, CLASS_NAME_PATTERN, 'clean.removeClasses');
+
+  return config as ExtractorConfigOverrides;
+}
+
+/**
+ * 校验清理规则中的标签名和类名,这些值会拼入CSS选择器
+ */
+function validateCleanNames(value: unknown, pattern: RegExp, field: string): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`${field} must be an array`);
+  }
+  const invalid = value.find(name => typeof name !== 'string' || !pattern.test(name));
+  if (invalid !== undefined) {
+    throw new Error(`${field} contains an invalid name: ${String(invalid)}`);
+  }
+}
+
+/**
+ * 校验请求中的抓取选项(请求头、Cookie、代理)
+ * @returns 校验通过的选项
+ */
+export function parseFetchOptions(value: Record<string, unknown>): RequestFetchOptions {
+  const { headers, cookie, proxy } = value;
+
+  if (headers !== undefined && (
+    !headers || typeof headers !== 'object' || Array.isArray(headers) ||
+    !Object.values(headers).every(item => typeof item === 'string')
+  )) {
+    throw new Error('headers must be an object of string values');
+  }
+  if (cookie !== undefined && typeof cookie !== 'string') {
+    throw new Error('cookie must be a string');
+  }
+  if (proxy !== undefined && typeof proxy !== 'string') {
+    throw new Error('proxy must be a string');
+  }
+
+  return {
+    headers: headers as Record<string, string> | undefined,
+    cookie: cookie || undefined,
+    proxy: proxy || undefined
+  };
+}
+
+/**
+ * 校验请求中的存档内容
+ * multipart 上传的文件直接使用,JSON 中的字符串按 base64 解码(可带 data: 前缀)
+ * @returns 存档文件内容
+ */
+export function parseArchiveData(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    throw new Error('archive must be a file or a base64 string');
+  }
+  return new Uint8Array(Buffer.from(value.replace(/^data:[^,]*;base64,/, ''), 'base64'));
+}
+
+/**
+ * 校验存档图片处理方式参数
+ */
+export function isArchiveImageMode(value: unknown): value is ArchiveImageMode {
+  return value === 'inline' || value === 'list';
+}
+
+/**
+ * 校验表格输出方式参数
+ */
+export function isTableMode(value: unknown): value is TableMode {
+  return value === 'gfm' || value === 'html' || value === 'flatten';
+}
+
+/**
+ * 校验页面来源参数
+ */
+export function isPageSource(value: unknown): value is string {
+  return typeof value === 'string' && PageSourceFactory.has(value);
+}
+
+/**
+ * 校验缓存模式参数
+ */
+export function isCacheMode(value: unknown): value is CacheMode {
+  return value === 'default' || value === 'bypass';
+}
+
+/**
+ * 校验提取引擎参数
+ */
+export function isExtractionEngine(value: unknown): value is ExtractionEngine {
+  return value === 'builtin' || value === 'readability' || value === 'auto';
+}
+
+// 提取选项
+export interface ProcessOptions {
+  // 输出格式
+  format: string;
+  // 页面类型,不传时自动检测
+  type?: WebsiteType;
+  // 提取器配置覆盖项
+  config?: ExtractorConfigOverrides;
+  // 提取引擎,默认使用内置提取器
+  engine?: ExtractionEngine;
+  // 是否返回候选节点的评分明细
+  debug?: boolean;
+  // Markdown中表格的输出方式,默认 gfm
+  tables?: TableMode;
+  // 页面解码时使用的编码
+  encoding?: string;
+  // 抓取时经过的重定向链
+  redirectChain?: string[];
+}
+
+/**
+ * 对HTML执行类型检测、内容提取和格式转换
+ */
+export async function processHtml(
+  html: string,
+  url: string,
+  options: ProcessOptions
+): Promise<Partial<ExtractResult>> {
+  const { format: outputFormat, type, config, engine = 'builtin', debug = false, tables, encoding, redirectChain } = options;
+
+  // 检查HTML内容
+  if (!html || html.length < 100) {
+    throw new ContentTooShortError();
+  }
+
+  // 识别验证码、登录墙、已删除和软404等错误页
+  const documentState = PageClassifier.classifyDocument(html, url);
+  if (documentState !== 'ok') {
+    console.log('Detected error page before extraction:', documentState);
+    throw new SoftErrorPageError(documentState);
+  }
+
+  // 检测页面类型
+  const pageType = type || detectPageType(url, html);
+  console.log('Detected page type:', pageType);
+  
+  // 获取对应的提取器
+  const extractor = ExtractorFactory.getContentExtractor(pageType, engine, config);
+  console.log('Using extractor:', extractor.constructor.name, 'engine:', engine);
+
+  // 提取内容
+  const result = await extractor.extract(html, url, { debug });
+  console.log('Extraction result:', {
+    hasTitle: !!result.title,
+    contentLength: result.content?.length || 0,
+    textContentLength: result.textContent?.length || 0,
+    metadata: result.metadata
+  });
+
+  // 提取结果只剩错误提示时同样视为错误页
+  const contentState = PageClassifier.classifyContent(result.title || '', result.textContent || '', url);
+  if (contentState !== 'ok') {
+    console.log('Detected error page after extraction:', contentState);
+    throw new SoftErrorPageError(contentState);
+  }
+
+  // 检查提取结果
+  if (!result.content) {
+    throw new NoMainContentError();
+  }
+
+  result.metadata = { ...result.metadata, pageState: 'ok' };
+
+  return formatResult(withPageMetadata(result, encoding, redirectChain), outputFormat, { tables });
+}
+
+/**
+ * 在结果中记录页面的编码和重定向链
+ */
+function withPageMetadata(result: ExtractResult, encoding?: string, redirectChain?: string[]): ExtractResult {
+  if (encoding) {
+    result.metadata = { ...result.metadata, encoding };
+  }
+  if (redirectChain && redirectChain.length > 1) {
+    result.metadata = { ...result.metadata, redirectChain };
+  }
+  return result;
+}
+
+/**
+ * 根据输出格式转换提取结果
+ * 提取器直接生成了Markdown时(纯文本、Markdown等非HTML文档),markdown 格式直接使用
+ */
+export function formatResult(
+  result: ExtractResult,
+  outputFormat: string,
+  markdownOptions: MarkdownOptions = {}
+): Partial<ExtractResult> {
+  const { markdown, ...rest } = result;
+  let output: Partial<ExtractResult> = {};
+  
+  switch (outputFormat) {
+    case 'text':
+      // 纯文本输出
+      output = {
+        title: result.title,
+        content: extractText(result.content),
+        textContent: result.textContent,
+        metadata: result.metadata
+      };
+      break;
+      
+    case 'markdown':
+      // Markdown输出
+      output = {
+        title: result.title,
+        content: markdown ?? (result.content ? convertToMarkdown(result.content, markdownOptions) : ''),
+        textContent: result.textContent,
+        metadata: result.metadata
+      };
+      break;
+
+    case 'blocks':
+      // 块结构输出
+      output = {
+        title: result.title,
+        blocks: convertToBlocks(result.content || ''),
+        textContent: result.textContent,
+        metadata: result.metadata
+      };
+      break;
+      
+    default:
+      // HTML输出
+      output = rest;
+  }
+
+  console.log('Final output format:', outputFormat, {
+    hasTitle: !!output.title,
+    contentLength: output.content?.length || 0,
+    textContentLength: output.textContent?.length || 0,
+    metadata: output.metadata
+  });
+
+  return output;
+}
+
+/**
+ * 按内容类型提取已加载的页面
+ * HTML走完整的提取流程,纯文本、Markdown、JSON、XML和图片交给对应的文档提取器
+ * @param page 已加载的页面
+ * @param options 提取选项
+ */
+export async function processPage(
+  page: LoadedPage,
+  options: Omit<ProcessOptions, 'encoding' | 'redirectChain'>
+): Promise<Partial<ExtractResult>> {
+  const kind = detectContentKind(page.contentType, page.finalUrl);
+  if (!kind) {
+    throw new UnsupportedContentTypeError(getMimeType(page.contentType));
+  }
+
+  if (kind === 'html') {
+    return processHtml(page.html, page.finalUrl, {
+      ...options,
+      encoding: page.encoding,
+      redirectChain: page.redirectChain
+    });
+  }
+
+  console.log('Processing document:', kind);
+  const result = await ExtractorFactory.getDocumentExtractor(kind).extract(page);
+  return formatResult(withPageMetadata(result, page.encoding, page.redirectChain), options.format, { tables: options.tables });
+}
+
+// 存档提取的选项
+export interface ArchiveProcessOptions extends Omit<ProcessOptions, 'encoding' | 'redirectChain'> {
+  // 存档中没有记录页面地址时使用的地址
+  url?: string;
+  // 存档图片的处理方式,默认内联
+  images?: ArchiveImageMode;
+}
+
+/**
+ * 提取 MHTML 或 .webarchive 存档
+ * 根页面走完整的HTML提取流程,存档中的图片内联到正文或在 metadata.archive 中列出
+ * @param data 存档文件内容
+ * @param options 提取选项
+ */
+export async function processArchive(
+  data: Uint8Array,
+  options: ArchiveProcessOptions
+): Promise<Partial<ExtractResult>> {
+  const { url: fallbackUrl = '', images: imageMode = 'inline', ...processOptions } = options;
+  const archive = parseArchive(data);
+  const url = archive.root.url || fallbackUrl;
+  console.log('Processing archive:', { format: archive.format, url, resources: archive.resources.length });
+
+  const { html, encoding } = decodeHtml(archive.root.data, archive.root.contentType);
+  const embedded = embedArchiveImages(html, url, archive.resources, imageMode);
+  const output = await processHtml(embedded.html, url, { ...processOptions, encoding });
+
+  output.metadata = {
+    ...output.metadata,
+    archive: { format: archive.format, images: embedded.images }
+  };
+  return output;
+}
+
+// 按URL提取的选项
+export interface UrlProcessOptions extends Omit<ProcessOptions, 'encoding' | 'redirectChain'> {
+  // 页面来源,默认通过HTTP抓取
+  source?: string;
+  // 本次请求的抓取选项
+  fetch?: RequestFetchOptions;
+  // 缓存模式
+  cache?: CacheMode;
+}
+
+// 按URL提取的结果
+export interface UrlProcessResult {
+  output: Partial<ExtractResult>;
+  // 缓存状态,未使用缓存时为空
+  cache?: CacheStatus;
+}
+
+/**
+ * 加载页面并提取内容
+ * 通过HTTP抓取且未携带自定义请求头、Cookie或代理时使用缓存,过期条目通过 ETag/Last-Modified 重新验证
+ * @param target URL或文件路径
+ * @param options 提取选项
+ */
+export async function processUrl(target: string, options: UrlProcessOptions): Promise<UrlProcessResult> {
+  const { source = 'http', fetch: fetchOptions = {}, cache: cacheMode = 'default', ...processOptions } = options;
+  const extractPage = (page: LoadedPage) => processPage(page, processOptions);
+
+  // 携带凭据的请求结果因人而异,不写入共享缓存
+  const cacheable = ExtractionCache.isEnabled() && source === 'http' &&
+    !fetchOptions.headers && !fetchOptions.cookie && !fetchOptions.proxy;
+  if (!cacheable) {
+    return { output: await extractPage(await loadPage(target, source, fetchOptions)) };
+  }
+
+  // 影响提取结果的选项
+  const { format, type, config, engine = 'builtin', debug = false, tables = 'gfm' } = processOptions;
+  const keyOptions = { format, type, config, engine, debug, tables };
+
+  const cached = cacheMode === 'bypass' ? undefined : await ExtractionCache.get(target, keyOptions);
+  if (cached && ExtractionCache.isFresh(cached)) {
+    console.log('Cache hit:', target);
+    return { output: cached.output, cache: 'HIT' };
+  }
+
+  // 过期条目带有验证器时发送条件请求
+  const validators: Record<string, string> = {};
+  if (cached?.etag) {
+    validators['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    validators['If-Modified-Since'] = cached.lastModified;
+  }
+
+  const page = await loadPage(target, source, Object.keys(validators).length ? { headers: validators } : {});
+  if (page.notModified && cached) {
+    console.log('Cache revalidated:', target);
+    await ExtractionCache.set(target, keyOptions, {
+      output: cached.output,
+      finalUrl: cached.finalUrl,
+      etag: page.etag || cached.etag,
+      lastModified: page.lastModified || cached.lastModified
+    });
+    return { output: cached.output, cache: 'REVALIDATED' };
+  }
+
+  const output = await extractPage(page);
+  await ExtractionCache.set(target, keyOptions, {
+    output,
+    finalUrl: page.finalUrl,
+    etag: page.etag,
+    lastModified: page.lastModified
+  });
+  return { output, cache: 'MISS' };
+}
@@ -0,0 +1,86 @@
+import { readFile, realpath } from 'fs/promises';
+import { isAbsolute, relative, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { BlockedUrlError, FileNotFoundError } from '../errors';
+import { contentTypeFromExtension, isTextContent } from '../../utils/contentType';
+import { decodeHtml } from '../../utils/encoding';
+import { type LoadedPage, type PageSource } from '../../types/source';
+
+// 表示文件不存在的系统错误码,目录被当作文件读取时同样视为不存在
+const NOT_FOUND_CODES = new Set(['ENOENT', 'ENOTDIR', 'EISDIR']);
+
+/**
+ * 从本地文件读取页面,用于测试样例和离线存档
+ * 只允许读取根目录内的文件
+ */
+export class FilePageSource implements PageSource {
+  public readonly name = 'file';
+  private readonly root: string;
+
+  /**
+   * @param root 允许读取的根目录
+   */
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  /**
+   * 判断路径是否在根目录内
+   */
+  private isInsideRoot(path: string, root: string = this.root): boolean {
+    const rel = relative(root, path);
+    return !rel.startsWith('..') && !isAbsolute(rel);
+  }
+
+  /**
+   * 执行文件系统操作,文件不存在时抛出 FileNotFoundError
+   */
+  private async orNotFound<T>(target: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (NOT_FOUND_CODES.has((error as NodeJS.ErrnoException).code ?? '')) {
+        throw new FileNotFoundError(target, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 将目标解析为根目录内的绝对路径
+   * 支持相对根目录的路径、绝对路径和 file:// 地址,指向根目录外的符号链接同样被拒绝
+   */
+  private async resolvePath(target: string): Promise<string> {
+    const path = target.startsWith('file:') ? fileURLToPath(target) : target;
+    const absolute = resolve(this.root, path);
+
+    if (!this.isInsideRoot(absolute)) {
+      throw new BlockedUrlError(`Path is outside the page source root: ${target}`);
+    }
+
+    const [real, realRoot] = await this.orNotFound(target, () => Promise.all([realpath(absolute), realpath(this.root)]));
+    if (!this.isInsideRoot(real, realRoot)) {
+      throw new BlockedUrlError(`Path is outside the page source root: ${target}`);
+    }
+    return absolute;
+  }
+
+  public async load(target: string): Promise<LoadedPage> {
+    const path = await this.resolvePath(target);
+    console.log('Reading file:', path);
+
+    const bytes = await this.orNotFound(target, () => readFile(path));
+    const contentType = contentTypeFromExtension(path);
+    const page = isTextContent(contentType, path) ? decodeHtml(bytes) : { html: '', encoding: undefined };
+    const finalUrl = pathToFileURL(path).href;
+
+    return {
+      html: page.html,
+      encoding: page.encoding,
+      contentType,
+      body: bytes,
+      finalUrl,
+      redirectChain: [finalUrl]
+    };
+  }
+}
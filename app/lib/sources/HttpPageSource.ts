@@ -0,0 +1,62 @@
+import { fetchPage } from '../fetcher';
+import { UpstreamStatusError } from '../errors';
+import { isTextContent } from '../../utils/contentType';
+import { decodeHtml } from '../../utils/encoding';
+import { type RequestFetchOptions } from '../../types/fetcher';
+import { type LoadedPage, type PageSource } from '../../types/source';
+
+/**
+ * 通过HTTP抓取页面
+ */
+export class HttpPageSource implements PageSource {
+  public readonly name = 'http';
+
+  /**
+   * 抓取页面,文本类内容按响应头、BOM或 <meta> 声明的编码解码
+   */
+  public async load(target: string, options: RequestFetchOptions = {}): Promise<LoadedPage> {
+    console.log('Fetching URL:', target);
+
+    // 获取页面内容
+    const response = await fetchPage(target, options);
+
+    // 条件请求命中
+    if (response.status === 304) {
+      console.log('Page not modified:', response.finalUrl);
+      return {
+        html: '',
+        finalUrl: response.finalUrl,
+        redirectChain: response.redirectChain,
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined,
+        notModified: true
+      };
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      console.error('Failed to fetch URL:', response.status, response.finalUrl);
+      throw new UpstreamStatusError(response.status);
+    }
+
+    if (response.redirectChain.length > 1) {
+      console.log('Followed redirects:', response.redirectChain);
+    }
+
+    // 图片等二进制内容不解码,由对应的提取器读取原始内容
+    const page = isTextContent(response.contentType, response.finalUrl)
+      ? decodeHtml(response.body, response.contentType)
+      : { html: '', encoding: undefined };
+    console.log('HTML content length:', page.html.length, 'encoding:', page.encoding);
+
+    return {
+      html: page.html,
+      encoding: page.encoding,
+      contentType: response.contentType,
+      body: response.body,
+      finalUrl: response.finalUrl,
+      redirectChain: response.redirectChain,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined
+    };
+  }
+}
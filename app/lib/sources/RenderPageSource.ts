@@ -0,0 +1,33 @@
+import { defaultFetchConfig } from '../../config/fetcher';
+import { assertUrlAllowed } from '../urlGuard';
+import { type RequestFetchOptions } from '../../types/fetcher';
+import { type LoadedPage, type PageSource, type RenderAdapter } from '../../types/source';
+
+/**
+ * 通过JS渲染后端获取客户端渲染的页面
+ * 具体的渲染方式由适配器决定,提取器不依赖浏览器
+ */
+export class RenderPageSource implements PageSource {
+  public readonly name = 'render';
+  private readonly adapter: RenderAdapter;
+
+  constructor(adapter: RenderAdapter) {
+    this.adapter = adapter;
+  }
+
+  public async load(target: string, options: RequestFetchOptions = {}): Promise<LoadedPage> {
+    // 渲染后端同样可能被用来访问内网,交给适配器前先校验地址
+    await assertUrlAllowed(target, defaultFetchConfig);
+    console.log('Rendering URL:', target);
+
+    const result = await this.adapter.render(target, options);
+    const finalUrl = result.finalUrl || target;
+    console.log('Rendered HTML length:', result.html.length);
+
+    return {
+      html: result.html,
+      finalUrl,
+      redirectChain: finalUrl === target ? [target] : [target, finalUrl]
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { BlockedUrlError, FetchFailedError } from './errors';
+import { type FetchConfig } from '../types/fetcher';
+import { matchHost } from '../utils/url';
+
+// 允许抓取的协议
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+// 禁止访问的内网、回环、链路本地及保留地址段
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * 判断IP地址是否属于禁止访问的地址段
+ * IPv4映射的IPv6地址(::ffff:127.0.0.1)按IPv4规则判断
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return BLOCKED_RANGES.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    return BLOCKED_RANGES.check(address, 'ipv6');
+  }
+  return true;
+}
+
+/**
+ * 校验URL是否允许抓取,不允许时抛出 BlockedUrlError
+ * 校验协议、主机白名单/黑名单,并解析DNS确认所有地址都不在内网地址段
+ * 每一跳重定向都需要重新校验
+ * 注意: 校验与实际连接分别解析DNS,无法防御DNS重绑定,部署时应配合出口网络策略
+ * @param url 待抓取的URL
+ * @param config 抓取配置
+ */
+export async function assertUrlAllowed(url: string, config: Pick<FetchConfig, 'allowedHosts' | 'deniedHosts'>): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError(`Invalid URL: ${url}`);
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    throw new BlockedUrlError(`Protocol not allowed: ${parsed.protocol}`);
+  }
+
+  // IPv6 字面量的主机名带有方括号
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+
+  if (config.deniedHosts.some(pattern => matchHost(pattern, hostname))) {
+    throw new BlockedUrlError(`Host is denied: ${hostname}`);
+  }
+  if (config.allowedHosts.length > 0 && !config.allowedHosts.some(pattern => matchHost(pattern, hostname))) {
+    throw new BlockedUrlError(`Host is not in the allowlist: ${hostname}`);
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      throw new FetchFailedError(`Unable to resolve host: ${hostname}`);
+    }
+  }
+
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    throw new BlockedUrlError(`Host resolves to a private or reserved address: ${hostname} (${blocked})`);
+  }
+}
@@ -0,0 +1,32 @@
+// 存档文件格式
+export type ArchiveFormat = 'mhtml' | 'webarchive';
+
+// 存档中图片的处理方式: inline 内联为 data: 地址,list 只在结果中列出
+export type ArchiveImageMode = 'inline' | 'list';
+
+// 存档中的一个资源
+export interface ArchiveResource {
+  // 资源的原始地址,只有 Content-ID 时为 cid: 地址
+  url: string;
+  // 资源的 Content-Type
+  contentType: string;
+  data: Uint8Array;
+}
+
+// 解析后的存档
+export interface ParsedArchive {
+  format: ArchiveFormat;
+  // 根页面
+  root: ArchiveResource;
+  // 图片、样式等内嵌资源
+  resources: ArchiveResource[];
+}
+
+// 结果中列出的存档图片
+export interface ArchiveImageInfo {
+  url: string;
+  contentType: string;
+  bytes: number;
+  // 是否已内联到正文中
+  inlined: boolean;
+}
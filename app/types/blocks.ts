@@ -0,0 +1,117 @@
+// 行内格式
+export type InlineMark = 'bold' | 'italic' | 'code' | 'strike' | 'underline' | 'highlight' | 'subscript' | 'superscript';
+
+// 一段格式相同的文本,href 存在时为链接
+export interface TextInline {
+  type: 'text';
+  text: string;
+  marks?: InlineMark[];
+  href?: string;
+}
+
+// 段内换行
+export interface BreakInline {
+  type: 'break';
+}
+
+// 行内公式,能取到TeX源码时给出 tex,否则给出 MathML
+export interface MathInline {
+  type: 'math';
+  tex?: string;
+  mathml?: string;
+}
+
+export type InlineNode = TextInline | BreakInline | MathInline;
+
+export interface HeadingBlock {
+  type: 'heading';
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  content: InlineNode[];
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  content: InlineNode[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  // 有序列表的起始序号,从1开始时省略
+  start?: number;
+  // 每个列表项是一组块,嵌套列表作为列表项中的块
+  items: ContentBlock[][];
+}
+
+export interface QuoteBlock {
+  type: 'quote';
+  children: ContentBlock[];
+}
+
+export interface CodeBlock {
+  type: 'code';
+  // 无法识别时省略
+  language?: string;
+  text: string;
+}
+
+export interface ImageBlock {
+  type: 'image';
+  src: string;
+  alt?: string;
+  title?: string;
+  // figcaption 中的图片说明
+  caption?: string;
+  width?: number;
+  height?: number;
+  // 图片外层链接的地址
+  href?: string;
+}
+
+export interface TableCell {
+  content: InlineNode[];
+  header?: boolean;
+  colspan?: number;
+  rowspan?: number;
+}
+
+export interface TableBlock {
+  type: 'table';
+  caption?: string;
+  rows: TableCell[][];
+}
+
+// 块级公式
+export interface MathBlock {
+  type: 'math';
+  tex?: string;
+  mathml?: string;
+}
+
+// 内嵌的视频、音频和第三方页面
+export interface EmbedBlock {
+  type: 'embed';
+  kind: 'iframe' | 'video' | 'audio' | 'object';
+  src: string;
+  // 内嵌内容所在的域名
+  provider?: string;
+  title?: string;
+  poster?: string;
+}
+
+export interface DividerBlock {
+  type: 'divider';
+}
+
+// 与渲染方式无关的正文结构
+export type ContentBlock =
+  | HeadingBlock
+  | ParagraphBlock
+  | ListBlock
+  | QuoteBlock
+  | CodeBlock
+  | ImageBlock
+  | TableBlock
+  | MathBlock
+  | EmbedBlock
+  | DividerBlock;
@@ -0,0 +1,33 @@
+import { type ExtractResult } from './extractor';
+
+// 缓存命中状态,对应响应头 X-Cache
+export type CacheStatus = 'HIT' | 'MISS' | 'REVALIDATED';
+
+// 请求的缓存模式,bypass 时跳过读取缓存但仍写入新结果
+export type CacheMode = 'default' | 'bypass';
+
+// 缓存配置
+export interface CacheConfig {
+  // 是否启用缓存
+  enabled: boolean;
+  // 缓存有效期,单位秒,过期后使用 ETag/Last-Modified 重新验证
+  ttl: number;
+  // 内存中最多保存的条目数
+  maxEntries: number;
+  // 磁盘缓存目录,为空时只使用内存缓存
+  dir?: string;
+}
+
+// 缓存条目
+export interface CacheEntry {
+  // 提取结果
+  output: Partial<ExtractResult>;
+  // 页面的最终地址
+  finalUrl: string;
+  // 用于条件请求的验证器
+  etag?: string;
+  lastModified?: string;
+  // 写入时间和过期时间,单位毫秒
+  storedAt: number;
+  expiresAt: number;
+}
@@ -1,12 +1,5 @@
 import { type CheerioAPI, type Cheerio, type Element as CheerioElement, type Node, type AnyNode, type BasicAcceptedElems } from 'cheerio';
 
-// 扩展 CheerioOptions
-declare module 'cheerio' {
-  interface CheerioOptions {
-    normalizeWhitespace?: boolean;
-  }
-}
-
 // 导出常用类型
 export type {
   CheerioAPI,
@@ -1,4 +1,6 @@
+import { type ContentBlock } from './blocks';
 import { type CheerioAPI, type CheerioNode } from './cheerio';
+import { type LoadedPage } from './source';
 
 export interface ExtractResult {
   title: string;
@@ -6,12 +8,23 @@ export interface ExtractResult {
   textContent: string;
   html: string;
   url: string;
+  // 提取器直接生成的Markdown,输出 markdown 格式时优先使用,不再由HTML转换
+  markdown?: string;
+  // 正文的块结构,输出 blocks 格式时生成
+  blocks?: ContentBlock[];
   metadata?: {
     author?: string;
     publishTime?: string;
     readCount?: number;
     likeCount?: number;
     platform?: 'weixin' | 'article' | 'forum';
+    engine?: 'builtin' | 'readability';
+    strategy?: ContentStrategy;
+    selector?: string;
+    confidence?: number;
+    encoding?: string;
+    pageState?: PageState;
+    contentKind?: ContentKind;
     [key: string]: any;
   };
 }
@@ -23,6 +36,94 @@ export interface ExtractorOptions {
   minScore?: number;
 }
 
+// 单次提取的上下文,保存该次提取的文档和中间状态
+export interface ExtractionContext {
+  // 当前文档,会在提取过程中被修改
+  $: CheerioAPI;
+  // 未经处理的原始文档,用于读取元数据
+  original: CheerioAPI;
+  // 页面URL
+  url: string;
+  // 解析相对地址的基准地址,优先取自 <base href>
+  baseUrl: string;
+  // 已移除的节点
+  droppedNodes: Set<CheerioNode>;
+  // 匹配到的站点规则
+  siteRule: SiteRule | null;
+  // 选出主要内容所用的策略
+  strategy: ContentStrategy;
+  // 选出主要内容所用的选择器或XPath
+  selector?: string;
+  // 从客户端状态(__NEXT_DATA__ 等)中找到的正文候选
+  hydrationCandidates: HydrationCandidate[];
+}
+
+// 单次提取的参数
+export interface ExtractRunOptions {
+  // 是否在结果中附带候选节点的评分明细
+  debug?: boolean;
+}
+
+// 调试用的候选节点评分明细
+export interface ExtractionCandidate {
+  // 节点路径
+  path: string;
+  tagName: string;
+  // calculateNodeScore 得分
+  nodeScore: number;
+  // calculateContentScore 得分
+  contentScore: number;
+  textLength: number;
+  linkDensity: number;
+}
+
+// 客户端状态中的正文候选
+export interface HydrationCandidate {
+  // 状态来源,如 __NEXT_DATA__、__INITIAL_STATE__
+  source: string;
+  // 字段在状态对象中的路径
+  path: string;
+  // 正文HTML
+  html: string;
+  textLength: number;
+}
+
+// 主要内容的选取策略
+export type ContentStrategy =
+  | 'site-rule'
+  | 'xpath'
+  | 'custom-selector'
+  | 'selector'
+  | 'readability-plus'
+  | 'hydration'
+  | 'heuristic'
+  | 'body';
+
+// 提取引擎: 内置提取器、Mozilla Readability,或内置提取失败时回退到Readability
+export type ExtractionEngine = 'builtin' | 'readability' | 'auto';
+
+// Markdown中表格的输出方式: gfm 简单表格转为管道表格,html 保留HTML,flatten 先展开合并单元格再转为管道表格
+export type TableMode = 'gfm' | 'html' | 'flatten';
+
+// HTML转换为Markdown的选项
+export interface MarkdownOptions {
+  // 表格的输出方式,默认 gfm
+  tables?: TableMode;
+}
+
+// 内容提取器接口
+export interface ContentExtractor {
+  extract(html: string, url: string, options?: ExtractRunOptions): Promise<ExtractResult>;
+}
+
+// 内容类型,决定使用HTML提取器还是非HTML文档的提取器
+export type ContentKind = 'html' | 'text' | 'markdown' | 'json' | 'xml' | 'image' | 'pdf';
+
+// 非HTML文档的提取器接口
+export interface DocumentExtractor {
+  extract(page: LoadedPage): Promise<ExtractResult>;
+}
+
 export interface CleanOptions {
   removeScripts?: boolean;
   removeStyles?: boolean;
@@ -32,12 +133,56 @@ export interface CleanOptions {
 // 网站类型
 export type WebsiteType = 'article' | 'forum' | 'weixin';
 
+// 页面状态,非 ok 表示页面本身是错误页(已删除、需要登录、验证码、软404)
+export type PageState = 'ok' | 'deleted' | 'login_required' | 'captcha' | 'not_found';
+
+// 错误页识别规则
+export interface PageStateRule {
+  // 识别出的页面状态
+  state: Exclude<PageState, 'ok'>;
+  // 适用的主机,支持 "*.example.com",不设置时适用于所有页面
+  hosts?: string[];
+  // 命中即判定的元素选择器
+  selectors?: string[];
+  // 页面正文中出现即判定的文字
+  markers?: string[];
+  // 页面标题中出现即判定的文字
+  titleMarkers?: string[];
+  // 页面标题匹配即判定的正则,用于 "404" 这类作为子串容易误判的标记
+  titlePatterns?: RegExp[];
+  // 正文超过该长度时不再匹配任何规则,避免正常文章中的评论验证码或引用的文字被误判
+  // 不设置 hosts 的通用规则只统计页眉、页脚、导航之外的文字
+  maxTextLength?: number;
+}
+
+// 站点规则
+export interface SiteRule {
+  // 规则名称
+  name: string;
+  // 主机匹配模式,"*.example.com" 同时匹配 example.com 及其子域名
+  hosts: string[];
+  // 使用的提取器类型
+  type?: WebsiteType;
+  // 正文选择器,优先于提取器自带的选择器
+  contentSelectors?: string[];
+  // 预处理时移除的元素选择器
+  removeSelectors?: string[];
+  // 标题选择器
+  titleSelectors?: string[];
+  // 元数据选择器
+  metadata?: {
+    author?: string[];
+    publishTime?: string[];
+  };
+}
+
 // 网站提取器接口
+// preProcess 在清理文档之前执行,postProcess 在选出主要内容之后执行
 export interface SiteExtractor {
   canHandle(url: string): boolean;
   getCustomSelectors(): string[];
-  preProcess($: CheerioAPI): void;
-  postProcess($: CheerioAPI): void;
+  preProcess(ctx: ExtractionContext): void;
+  postProcess(ctx: ExtractionContext, element: CheerioNode): void;
 }
 
 // 主要内容选择器
@@ -267,4 +412,16 @@ export interface ExtractorConfig {
     minParagraphs: number;
     minImages: number;
   };
-}
\ No newline at end of file
+}
+
+// 递归可选类型
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends (infer U)[]
+    ? U[]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+// 配置覆盖项,会深度合并到默认配置之上
+export type ExtractorConfigOverrides = DeepPartial<ExtractorConfig>;
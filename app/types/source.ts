@@ -0,0 +1,51 @@
+import { type RequestFetchOptions } from './fetcher';
+
+// 页面来源加载到的页面
+export interface LoadedPage {
+  html: string;
+  // 页面的最终地址,用于站点规则匹配和相对地址解析
+  finalUrl: string;
+  // 依次访问过的地址,未发生重定向时只有一项
+  redirectChain: string[];
+  // 解码时使用的编码
+  encoding?: string;
+  // 页面的 Content-Type
+  contentType?: string | null;
+  // 原始内容,图片等二进制内容只能从这里读取
+  body?: Uint8Array;
+  // 用于条件请求的验证器
+  etag?: string;
+  lastModified?: string;
+  // 条件请求命中,页面未修改(此时 html 为空)
+  notModified?: boolean;
+}
+
+// 页面来源,负责根据地址或路径取得页面HTML
+export interface PageSource {
+  // 来源名称,对应请求参数 source
+  readonly name: string;
+  /**
+   * 加载页面
+   * @param target URL或文件路径
+   * @param options 本次请求的抓取选项
+   */
+  load(target: string, options?: RequestFetchOptions): Promise<LoadedPage>;
+}
+
+// JS渲染后端返回的结果
+export interface RenderResult {
+  // 渲染完成后的HTML
+  html: string;
+  // 渲染结束时的页面地址,不返回时视为请求的地址
+  finalUrl?: string;
+}
+
+// JS渲染后端适配器,可替换为无头浏览器、远程渲染服务或测试用的本地桩
+export interface RenderAdapter {
+  /**
+   * 渲染页面并返回HTML
+   * @param url 已通过安全校验的页面地址
+   * @param options 本次请求的抓取选项
+   */
+  render(url: string, options: RequestFetchOptions): Promise<RenderResult>;
+}
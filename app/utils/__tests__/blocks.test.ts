@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ArticleExtractor } from '../../lib/extractors/ArticleExtractor';
+import { convertToBlocks } from '../blocks';
+import { type TextInline } from '../../types/blocks';
+
+const FILLER = Array.from({ length: 4 }, (_, index) =>
+  `<p>Paragraph ${index} has enough words in it to be treated as the main content of this page by the extractor scoring.</p>`
+).join('');
+
+/**
+ * 生成文本节点
+ */
+function text(value: string, extra: Omit<TextInline, 'type' | 'text'> = {}): TextInline {
+  return { type: 'text', text: value, ...extra };
+}
+
+describe('convertToBlocks', () => {
+  it('keeps heading levels and inline marks', () => {
+    const blocks = convertToBlocks('<h2>Intro <em>part</em></h2><h4>Details</h4>' +
+      '<p>Hello <strong>bold</strong> <a href="https://example.com/">link</a></p>');
+
+    expect(blocks).toEqual([
+      { type: 'heading', level: 2, content: [text('Intro '), text('part', { marks: ['italic'] })] },
+      { type: 'heading', level: 4, content: [text('Details')] },
+      {
+        type: 'paragraph',
+        content: [text('Hello '), text('bold', { marks: ['bold'] }), text(' '), text('link', { href: 'https://example.com/' })]
+      }
+    ]);
+  });
+
+  it('nests lists inside list items', () => {
+    const blocks = convertToBlocks('<ol start="3"><li>First<ul><li>Nested <code>x</code></li></ul></li>' +
+      '<li><p>Second</p></li></ol><ul><li>Plain</li></ul>');
+
+    expect(blocks).toEqual([
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [
+          [
+            { type: 'paragraph', content: [text('First')] },
+            {
+              type: 'list',
+              ordered: false,
+              items: [[{ type: 'paragraph', content: [text('Nested '), text('x', { marks: ['code'] })] }]]
+            }
+          ],
+          [{ type: 'paragraph', content: [text('Second')] }]
+        ]
+      },
+      { type: 'list', ordered: false, items: [[{ type: 'paragraph', content: [text('Plain')] }]] }
+    ]);
+  });
+
+  it('keeps code text and language', () => {
+    const blocks = convertToBlocks('<pre><code class="language-ts">const a = 1;\n  return a;</code></pre><pre>plain</pre>');
+
+    expect(blocks).toEqual([
+      { type: 'code', language: 'ts', text: 'const a = 1;\n  return a;' },
+      { type: 'code', text: 'plain' }
+    ]);
+  });
+
+  it('outputs table rows with header cells and spans', () => {
+    const blocks = convertToBlocks('<table><caption>Stock</caption><thead><tr><th>Name</th><th>Qty</th></tr></thead>' +
+      '<tbody><tr><td>Apple</td><td colspan="2">3</td></tr></tbody></table>');
+
+    expect(blocks).toEqual([
+      {
+        type: 'table',
+        caption: 'Stock',
+        rows: [
+          [{ content: [text('Name')], header: true }, { content: [text('Qty')], header: true }],
+          [{ content: [text('Apple')] }, { content: [text('3')], colspan: 2 }]
+        ]
+      }
+    ]);
+  });
+
+  it('wraps quotes and keeps dividers', () => {
+    expect(convertToBlocks('<blockquote><p>Quoted</p></blockquote><hr>')).toEqual([
+      { type: 'quote', children: [{ type: 'paragraph', content: [text('Quoted')] }] },
+      { type: 'divider' }
+    ]);
+  });
+});
+
+describe('convertToBlocks captions', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('outputs each image caption once', async () => {
+    const html = `<html><head><title>Article</title></head><body><article class="post-content">${FILLER}` +
+      `<img src="/alt.png" alt="ALTCAPTION">` +
+      `<figure><img src="/fig.png" alt="FIGALT"><figcaption>OWNCAPTION</figcaption></figure>` +
+      `</article></body></html>`;
+
+    const result = await new ArticleExtractor().extract(html, 'https://example.com/a');
+    const blocks = convertToBlocks(result.content);
+    const serialized = JSON.stringify(blocks);
+    const images = blocks.filter(block => block.type === 'image');
+
+    expect(images).toEqual([
+      expect.objectContaining({ alt: 'ALTCAPTION', caption: 'ALTCAPTION' }),
+      expect.objectContaining({ alt: 'FIGALT', caption: 'OWNCAPTION' })
+    ]);
+    // 说明只出现在图片的 alt 和 caption 中,不会另外输出为段落
+    expect(serialized.split('ALTCAPTION').length - 1).toBe(2);
+    expect(serialized.split('OWNCAPTION').length - 1).toBe(1);
+  });
+});
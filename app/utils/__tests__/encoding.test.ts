@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processHtml } from '../../lib/pipeline';
+import { decodeHtml, detectEncoding } from '../encoding';
+
+// "中文编码" 的 GBK 和 Big5 字节
+const GBK_TEXT = [0xd6, 0xd0, 0xce, 0xc4, 0xb1, 0xe0, 0xc2, 0xeb];
+const BIG5_TEXT = [0xa4, 0xa4, 0xa4, 0xe5];
+
+/**
+ * 拼接ASCII片段和已编码的字节,生成非UTF-8页面
+ */
+function encodePage(...parts: Array<string | number[]>): Uint8Array {
+  return new Uint8Array(Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part))));
+}
+
+/**
+ * 生成正文足够长的GBK页面
+ */
+function gbkArticle(head: string): Uint8Array {
+  const paragraph: Array<string | number[]> = ['<p>', GBK_TEXT, ' paragraph with enough words to be kept as the main content of the page.</p>'];
+  return encodePage(
+    `<html><head>${head}<title>`, GBK_TEXT, '</title></head><body><article class="post-content">',
+    ...paragraph, ...paragraph, ...paragraph, ...paragraph,
+    '</article></body></html>'
+  );
+}
+
+describe('detectEncoding', () => {
+  it('honours utf-16 declared in the Content-Type header', () => {
+    const html = '<html><body>héllo</body></html>';
+    const bytes = new Uint8Array(Buffer.from(html, 'utf16le'));
+
+    expect(decodeHtml(bytes, 'text/html; charset=utf-16le')).toEqual({ html, encoding: 'utf-16le' });
+  });
+
+  it('treats utf-16 declared in a meta tag as utf-8', () => {
+    const bytes = new Uint8Array(Buffer.from('<meta charset="utf-16"><p>héllo</p>', 'utf8'));
+
+    expect(detectEncoding(bytes, 'text/html')).toBe('utf-8');
+  });
+
+  it('prefers the header charset over the meta declaration', () => {
+    const bytes = new Uint8Array(Buffer.from('<meta charset="gbk"><p>hello</p>', 'utf8'));
+
+    expect(detectEncoding(bytes, 'text/html; charset=big5')).toBe('big5');
+    expect(detectEncoding(bytes, null)).toBe('gbk');
+  });
+});
+
+describe('decoding non-UTF-8 pages', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('decodes a GBK page declared as gb2312 in a meta tag', async () => {
+    const page = decodeHtml(gbkArticle('<meta http-equiv="Content-Type" content="text/html; charset=gb2312">'), 'text/html');
+
+    expect(page.encoding).toBe('gbk');
+    const result = await processHtml(page.html, 'https://example.com/gbk', { format: 'text', encoding: page.encoding });
+    expect(result.title).toBe('中文编码');
+    expect(result.textContent).toContain('中文编码 paragraph');
+    expect(result.metadata?.encoding).toBe('gbk');
+  });
+
+  it('decodes a GBK page declared in the Content-Type header', () => {
+    const page = decodeHtml(gbkArticle(''), 'text/html; charset=GBK');
+
+    expect(page.encoding).toBe('gbk');
+    expect(page.html).toContain('<title>中文编码</title>');
+  });
+
+  it('decodes a Big5 page declared in a meta charset', () => {
+    const page = decodeHtml(encodePage('<meta charset="big5"><p>', BIG5_TEXT, '</p>'), null);
+
+    expect(page).toEqual({ html: '<meta charset="big5"><p>中文</p>', encoding: 'big5' });
+  });
+});
@@ -0,0 +1,32 @@
+import { load } from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { flattenTableSpans } from '../table';
+
+function flatten(html: string) {
+  const $ = load(html, null, false);
+  flattenTableSpans($, $.root());
+  return $;
+}
+
+describe('flattenTableSpans', () => {
+  it('repeats merged cells across the grid', () => {
+    const $ = flatten('<table><tr><td colspan="2">A</td></tr><tr><td>B</td><td>C</td></tr></table>');
+
+    expect($('tr').first().children().map((_, cell) => $(cell).text()).get()).toEqual(['A', 'A']);
+    expect($('[colspan]')).toHaveLength(0);
+  });
+
+  it('clamps huge spans like browsers do', () => {
+    const $ = flatten('<table><tr><td colspan="999999999">A</td></tr><tr><td>B</td></tr></table>');
+
+    expect($('tr').first().children()).toHaveLength(1000);
+  });
+
+  it('keeps tables whose flattened grid would be too wide', () => {
+    const row = '<td colspan="1000">A</td>'.repeat(5);
+    const $ = flatten(`<table><tr>${row}</tr><tr><td>B</td></tr></table>`);
+
+    expect($('tr').first().children()).toHaveLength(5);
+    expect($('[colspan="1000"]')).toHaveLength(5);
+  });
+});
@@ -0,0 +1,423 @@
+import { load } from 'cheerio';
+import { type AnyNode, type Cheerio, type CheerioAPI, type CheerioElement } from '../types/cheerio';
+import { type ContentBlock, type EmbedBlock, type ImageBlock, type InlineMark, type InlineNode, type TableCell } from '../types/blocks';
+
+// 产生行内格式的标签
+const INLINE_MARKS: Record<string, InlineMark> = {
+  strong: 'bold',
+  b: 'bold',
+  em: 'italic',
+  i: 'italic',
+  cite: 'italic',
+  code: 'code',
+  kbd: 'code',
+  samp: 'code',
+  tt: 'code',
+  del: 'strike',
+  s: 'strike',
+  strike: 'strike',
+  u: 'underline',
+  ins: 'underline',
+  mark: 'highlight',
+  sub: 'subscript',
+  sup: 'superscript'
+};
+
+// 其余不产生格式的行内标签,其他标签都按块级容器处理
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'bdi', 'bdo', 'big', 'data', 'dfn', 'font', 'label', 'q', 'small', 'span', 'time', 'var', 'wbr',
+  ...Object.keys(INLINE_MARKS)
+]);
+
+// 不输出的标签
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'button', 'svg', 'canvas']);
+
+// 内嵌内容的标签
+const EMBED_TAGS: Record<string, EmbedBlock['kind']> = {
+  iframe: 'iframe',
+  video: 'video',
+  audio: 'audio',
+  embed: 'object',
+  object: 'object'
+};
+
+// 遍历时继承的行内格式和链接
+interface InlineState {
+  marks: InlineMark[];
+  href?: string;
+}
+
+/**
+ * 判断是否为元素节点,domhandler 中 script 和 style 的节点类型单独区分
+ */
+function isElement(node: AnyNode): node is CheerioElement {
+  return node.type === 'tag' || node.type === 'script' || node.type === 'style';
+}
+
+/**
+ * 读取正整数属性,无效时返回undefined
+ */
+function readNumber(value: string | undefined): number | undefined {
+  const number = parseInt(value || '', 10);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * 追加一段文本,格式和链接与前一段相同时合并
+ */
+function pushText(inline: InlineNode[], text: string, state: InlineState): void {
+  const last = inline[inline.length - 1];
+  if (last?.type === 'text' && last.href === state.href && (last.marks || []).join() === state.marks.join()) {
+    last.text += text;
+    return;
+  }
+  inline.push({
+    type: 'text',
+    text,
+    ...(state.marks.length ? { marks: state.marks } : {}),
+    ...(state.href ? { href: state.href } : {})
+  });
+}
+
+/**
+ * 折叠空白并去除首尾、换行两侧的空白,去掉空文本和首尾的换行
+ */
+function trimInline(inline: InlineNode[]): InlineNode[] {
+  const result: InlineNode[] = [];
+  for (const node of inline) {
+    if (node.type !== 'text') {
+      result.push(node);
+      continue;
+    }
+    // 行内代码之外的连续空白折叠为一个空格
+    const text = node.marks?.includes('code') ? node.text.replace(/\n/g, ' ') : node.text.replace(/\s+/g, ' ');
+    const previous = result[result.length - 1];
+    const collapsed = !previous || previous.type === 'break' || (previous.type === 'text' && previous.text.endsWith(' '))
+      ? text.replace(/^ +/, '')
+      : text;
+    if (collapsed) {
+      result.push({ ...node, text: collapsed });
+    }
+  }
+
+  // 去除换行前和末尾的空白
+  for (let i = 0; i < result.length; i++) {
+    const node = result[i];
+    const next = result[i + 1];
+    if (node.type === 'text' && (!next || next.type === 'break')) {
+      node.text = node.text.replace(/ +$/, '');
+    }
+  }
+
+  const content = result.filter(node => node.type !== 'text' || node.text);
+  while (content[0]?.type === 'break') {
+    content.shift();
+  }
+  while (content[content.length - 1]?.type === 'break') {
+    content.pop();
+  }
+  return content;
+}
+
+/**
+ * 识别公式元素
+ * 支持提取时标记的 math-inline/math-display(data-tex)、KaTeX 和 MathML
+ * @returns 公式内容和是否为块级公式,不是公式时返回null
+ */
+function readMath($: CheerioAPI, $element: Cheerio<CheerioElement>): { tex?: string; mathml?: string; display: boolean } | null {
+  const tag = $element.get(0)!.tagName.toLowerCase();
+  const isKatex = $element.hasClass('katex') || $element.hasClass('katex-display');
+  if (tag !== 'math' && !isKatex && !$element.hasClass('math-inline') && !$element.hasClass('math-display')) {
+    return null;
+  }
+
+  const display = $element.hasClass('math-display') || $element.hasClass('katex-display') ||
+    (tag === 'math' && $element.attr('display') === 'block');
+  if (tag === 'math' || isKatex) {
+    const annotation = $element.find('annotation[encoding*="tex"]').first().text().trim();
+    const $math = tag === 'math' ? $element : $element.find('math').first();
+    if (annotation) {
+      return { tex: annotation, display };
+    }
+    return $math.length ? { mathml: $.html($math), display } : null;
+  }
+
+  // data-tex 和文本中可能带有 $ 分隔符
+  const tex = ($element.attr('data-tex') || $element.text()).trim().replace(/^\$\$?([\s\S]*?)\$?\$$/, '$1').trim();
+  return tex ? { tex, display } : null;
+}
+
+/**
+ * 读取图片
+ */
+function readImage($element: Cheerio<CheerioElement>, href?: string): ImageBlock | null {
+  const src = $element.attr('src');
+  if (!src) {
+    return null;
+  }
+  const width = readNumber($element.attr('width'));
+  const height = readNumber($element.attr('height'));
+  return {
+    type: 'image',
+    src,
+    ...($element.attr('alt') ? { alt: $element.attr('alt') } : {}),
+    ...($element.attr('title') ? { title: $element.attr('title') } : {}),
+    ...(width ? { width } : {}),
+    ...(height ? { height } : {}),
+    ...(href ? { href } : {})
+  };
+}
+
+/**
+ * 读取视频、音频和 iframe 等内嵌内容
+ */
+function readEmbed($element: Cheerio<CheerioElement>, kind: EmbedBlock['kind']): EmbedBlock | null {
+  const src = $element.attr('src') || $element.attr('data') || $element.find('source[src]').first().attr('src');
+  if (!src) {
+    return null;
+  }
+
+  let provider: string | undefined;
+  try {
+    provider = new URL(src).hostname || undefined;
+  } catch {
+    provider = undefined;
+  }
+
+  return {
+    type: 'embed',
+    kind,
+    src,
+    ...(provider ? { provider } : {}),
+    ...($element.attr('title') ? { title: $element.attr('title') } : {}),
+    ...($element.attr('poster') ? { poster: $element.attr('poster') } : {})
+  };
+}
+
+/**
+ * 将块中的行内内容合并为一段,用于标题和表格单元格
+ * 段落之间用换行分隔,代码块作为行内代码,图片等无法放入行内的内容忽略
+ */
+function readInline($: CheerioAPI, nodes: AnyNode[]): InlineNode[] {
+  const flatten = (blocks: ContentBlock[]): InlineNode[][] => blocks.flatMap((block): InlineNode[][] => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        return [block.content];
+      case 'code':
+        return [[{ type: 'text', text: block.text, marks: ['code'] }]];
+      case 'math':
+        return [[{ type: 'math', ...(block.tex ? { tex: block.tex } : { mathml: block.mathml }) }]];
+      case 'list':
+        return block.items.flatMap(flatten);
+      case 'quote':
+        return flatten(block.children);
+      default:
+        return [];
+    }
+  });
+
+  return flatten(readBlocks($, nodes)).reduce<InlineNode[]>(
+    (inline, content) => inline.length ? [...inline, { type: 'break' }, ...content] : [...content],
+    []
+  );
+}
+
+/**
+ * 读取表格,行和单元格只取表格自身的,不包括嵌套表格
+ */
+function readTable($: CheerioAPI, $table: Cheerio<CheerioElement>): ContentBlock[] {
+  const table = $table.get(0)!;
+  const rows = $table.find('tr').toArray()
+    .filter(row => $(row).closest('table').get(0) === table)
+    .map(row => $(row).children('th, td').toArray().map((cell): TableCell => {
+      const colspan = readNumber(cell.attribs.colspan);
+      const rowspan = readNumber(cell.attribs.rowspan);
+      return {
+        content: trimInline(readInline($, cell.children)),
+        ...(cell.tagName.toLowerCase() === 'th' ? { header: true } : {}),
+        ...(colspan && colspan > 1 ? { colspan } : {}),
+        ...(rowspan && rowspan > 1 ? { rowspan } : {})
+      };
+    }))
+    .filter(cells => cells.length);
+
+  if (!rows.length) {
+    return [];
+  }
+  const caption = $table.children('caption').first().text().trim();
+  return [{ type: 'table', ...(caption ? { caption } : {}), rows }];
+}
+
+/**
+ * 读取 figure,说明文字归入其中的图片或表格
+ * @param state 外层的行内格式和链接,链接包住整个 figure 时图片仍记录链接地址
+ */
+function readFigure($: CheerioAPI, $figure: Cheerio<CheerioElement>, state: InlineState): ContentBlock[] {
+  const $captions = $figure.children('figcaption');
+  const blocks = readBlocks($, $figure.contents().toArray().filter(node => !$captions.is(node as CheerioElement)), state);
+
+  const caption = $captions.toArray().map(node => $(node).text().trim()).find(Boolean);
+  if (!caption) {
+    return blocks;
+  }
+
+  const target = [...blocks].reverse().find(block => block.type === 'image' || block.type === 'table');
+  if (target && (target.type === 'image' || target.type === 'table')) {
+    target.caption = target.caption || caption;
+    return blocks;
+  }
+  return [...blocks, { type: 'paragraph', content: [{ type: 'text', text: caption }] }];
+}
+
+/**
+ * 读取块级元素
+ * @returns 元素对应的块,只是容器时返回null,由调用方继续遍历子节点
+ */
+function readBlockElement(
+  $: CheerioAPI,
+  $element: Cheerio<CheerioElement>,
+  tag: string,
+  state: InlineState
+): ContentBlock[] | null {
+  const element = $element.get(0)!;
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const content = trimInline(readInline($, element.children));
+    return content.length ? [{ type: 'heading', level: Number(heading[1]) as 1 | 2 | 3 | 4 | 5 | 6, content }] : [];
+  }
+
+  switch (tag) {
+    case 'ul':
+    case 'ol': {
+      const items = $element.children('li').toArray()
+        .map(item => readBlocks($, item.children))
+        .filter(item => item.length);
+      const start = tag === 'ol' ? readNumber($element.attr('start')) : undefined;
+      return items.length
+        ? [{ type: 'list', ordered: tag === 'ol', ...(start && start !== 1 ? { start } : {}), items }]
+        : [];
+    }
+
+    case 'blockquote': {
+      const children = readBlocks($, element.children);
+      return children.length ? [{ type: 'quote', children }] : [];
+    }
+
+    case 'pre': {
+      const language = `${$element.find('code').first().attr('class') || ''} ${$element.attr('class') || ''}`
+        .match(/language-(\S+)/)?.[1];
+      const text = $element.text().replace(/\n$/, '');
+      return text.trim() ? [{ type: 'code', ...(language ? { language } : {}), text }] : [];
+    }
+
+    case 'table':
+      return readTable($, $element);
+
+    case 'figure':
+      return readFigure($, $element, state);
+
+    case 'hr':
+      return [{ type: 'divider' }];
+
+    default:
+      if (EMBED_TAGS[tag]) {
+        const embed = readEmbed($element, EMBED_TAGS[tag]);
+        return embed ? [embed] : [];
+      }
+      return null;
+  }
+}
+
+/**
+ * 将一组节点转换为块
+ * 连续的文本和行内元素合并为段落,遇到块级元素时结束当前段落
+ */
+function readBlocks($: CheerioAPI, nodes: AnyNode[], initialState: InlineState = { marks: [] }): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let inline: InlineNode[] = [];
+
+  const flush = () => {
+    const content = trimInline(inline);
+    if (content.length) {
+      blocks.push({ type: 'paragraph', content });
+    }
+    inline = [];
+  };
+
+  const visit = (node: AnyNode, state: InlineState) => {
+    if (node.type === 'text') {
+      pushText(inline, node.data, state);
+      return;
+    }
+    if (!isElement(node)) {
+      return;
+    }
+
+    const tag = node.tagName.toLowerCase();
+    const $element = $(node);
+    if (SKIPPED_TAGS.has(tag)) {
+      return;
+    }
+    if (tag === 'br') {
+      inline.push({ type: 'break' });
+      return;
+    }
+
+    const math = readMath($, $element);
+    if (math) {
+      const { display, ...formula } = math;
+      if (display) {
+        flush();
+        blocks.push({ type: 'math', ...formula });
+      } else {
+        inline.push({ type: 'math', ...formula });
+      }
+      return;
+    }
+
+    // 图片单独成块,链接中的图片记录链接地址
+    if (tag === 'img') {
+      const image = readImage($element, state.href);
+      if (image) {
+        flush();
+        blocks.push(image);
+      }
+      return;
+    }
+
+    if (INLINE_TAGS.has(tag)) {
+      const mark = INLINE_MARKS[tag];
+      const next: InlineState = {
+        marks: mark && !state.marks.includes(mark) ? [...state.marks, mark] : state.marks,
+        href: tag === 'a' && $element.attr('href') ? $element.attr('href') : state.href
+      };
+      node.children.forEach(child => visit(child, next));
+      return;
+    }
+
+    flush();
+    const elementBlocks = readBlockElement($, $element, tag, state);
+    if (elementBlocks) {
+      blocks.push(...elementBlocks);
+    } else {
+      node.children.forEach(child => visit(child, state));
+    }
+    flush();
+  };
+
+  nodes.forEach(node => visit(node, initialState));
+  flush();
+  return blocks;
+}
+
+/**
+ * 将正文HTML转换为与渲染方式无关的块结构
+ * 块依次为标题、段落、列表、引用、代码、图片、表格、公式、内嵌内容和分隔线,段落中的文本带有行内格式和链接
+ * @param html 提取出的正文HTML
+ */
+export function convertToBlocks(html: string): ContentBlock[] {
+  const $ = load(html, null, false);
+  return readBlocks($, $.root().contents().toArray());
+}
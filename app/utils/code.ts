@@ -0,0 +1,131 @@
+import { type Cheerio, type CheerioAPI, type CheerioElement } from '../types/cheerio';
+
+// 行号等不属于代码本身的元素: CSDN、Prism、highlight.js、Hexo、Pygments、微信公众号
+const LINE_NUMBER_SELECTORS = [
+  '.pre-numbering',
+  '.line-numbers-rows',
+  '.hljs-ln-numbers',
+  '.gutter',
+  '.linenos',
+  '.lineno',
+  '.react-syntax-highlighter-line-number',
+  '.code-snippet__line-index'
+].join(', ');
+
+// 代码块中的复制按钮等控件
+const CODE_CONTROL_SELECTORS = 'button, .hljs-button, .copy-button, .code-copy, .btn-copy';
+
+// 高亮库自身的类名,不是语言名称
+const NON_LANGUAGE_CLASSES = new Set([
+  'hljs', 'prism', 'prettyprint', 'linenums', 'line-numbers', 'highlight', 'highlighter-rouge',
+  'code', 'source', 'notranslate', 's-code-block', 'sourcecode', 'syntaxhighlighter', 'code-snippet',
+  'nohighlight', 'no-highlight', 'plaintext', 'plain', 'text', 'txt', 'none'
+]);
+
+// 在祖先元素中查找高亮容器的层数
+const WRAPPER_DEPTH = 6;
+
+/**
+ * 从类名和属性中读取语言名称
+ * 支持 language-*、lang-*、brush: *(SyntaxHighlighter)、highlight-source-*(GitHub)、code-snippet__*(微信公众号)、
+ * data-lang/data-language 属性,以及 highlight.js 的 "hljs python" 和 Hexo 的 "highlight python"
+ * @param wrapper 是否为外层容器,容器上的 lang-* 常表示自然语言,不作为代码语言
+ */
+function languageFromElement($element: Cheerio<CheerioElement>, wrapper: boolean): string {
+  const dataLanguage = $element.attr('data-lang') || $element.attr('data-language');
+  if (dataLanguage) {
+    return dataLanguage;
+  }
+
+  const className = $element.attr('class') || '';
+  const prefixed = className.match(wrapper ? /(?:^|\s)(?:language|highlight-source)-([\w#+.-]+)/i : /(?:^|\s)(?:language|lang|highlight-source)-([\w#+.-]+)/i) ||
+    className.match(/code-snippet__([\w#+-]+)/i) ||
+    className.match(/brush:\s*([\w#+.-]+)/i);
+  if (prefixed) {
+    return prefixed[1];
+  }
+
+  // "hljs python"、"highlight python" 这类写法中,紧跟高亮库类名的是语言
+  const classes = className.split(/\s+/).filter(Boolean);
+  const markerIndex = classes.findIndex(item => ['hljs', 'highlight', 'prettyprint'].includes(item.toLowerCase()));
+  const candidate = markerIndex >= 0 ? classes[markerIndex + 1] : undefined;
+  return candidate && /^[a-z][\w#+-]*$/i.test(candidate) ? candidate : '';
+}
+
+/**
+ * 识别代码块的语言
+ * 依次检查 code、pre 以及外层的高亮容器
+ * @returns 小写的语言名称,无法识别时返回空字符串
+ */
+export function detectCodeLanguage($: CheerioAPI, $pre: Cheerio<CheerioElement>): string {
+  const elements: [CheerioElement, boolean][] = [
+    ...$pre.find('code').first().toArray().map(element => [element, false] as [CheerioElement, boolean]),
+    [$pre.get(0)!, false],
+    ...$pre.parents().slice(0, WRAPPER_DEPTH).toArray().map(element => [element, true] as [CheerioElement, boolean])
+  ];
+
+  for (const [element, wrapper] of elements) {
+    const language = languageFromElement($(element), wrapper).toLowerCase();
+    if (language && !NON_LANGUAGE_CLASSES.has(language)) {
+      return language;
+    }
+  }
+  return '';
+}
+
+/**
+ * 读取代码块的纯文本,保留换行和缩进
+ * 高亮库按行拆分的结构(<br>、每行一个块、highlight.js 的行号表格)还原为换行
+ */
+function readCodeText($: CheerioAPI, $pre: Cheerio<CheerioElement>): string {
+  const $clone = $pre.clone();
+  $clone.find(`${LINE_NUMBER_SELECTORS}, ${CODE_CONTROL_SELECTORS}`).remove();
+  $clone.find('br').replaceWith('\n');
+
+  // highlight.js 行号插件把每行放在表格的一行中
+  $clone.find('table.hljs-ln').each((_, table) => {
+    const lines = $(table).find('td.hljs-ln-code').toArray().map(cell => $(cell).text());
+    $(table).replaceWith(lines.join('\n'));
+  });
+
+  // 每行一个块级元素且行之间没有换行时补上换行
+  const $lines = $clone.find('.line, .code-line, .view-line');
+  if ($lines.length > 1 && ($clone.text().match(/\n/g) || []).length < $lines.length - 1) {
+    $lines.slice(0, -1).after('\n');
+  }
+
+  return $clone.text().replace(/\n+$/, '');
+}
+
+/**
+ * 将代码块规范化为 <pre><code class="language-xxx">纯文本</code></pre>
+ * 去除高亮产生的标签、行号和复制按钮,保留原始的换行和缩进
+ * Hexo 等把代码放在表格中的高亮容器,表格整体替换为代码块
+ * @param $ 文档
+ * @param $root 需要处理的范围
+ */
+export function normalizeCodeBlocks($: CheerioAPI, $root: Cheerio<CheerioElement>): void {
+  $root.find('pre').each((_, element) => {
+    const $pre = $(element);
+    // 嵌套的 pre 和行号列中的 pre 由外层或所在表格处理
+    if ($pre.parents('pre').length || $pre.closest(LINE_NUMBER_SELECTORS).length) {
+      return;
+    }
+
+    const language = detectCodeLanguage($, $pre);
+    const text = readCodeText($, $pre);
+
+    const $code = $('<code></code>').text(text);
+    if (language) {
+      $code.addClass(`language-${language}`);
+    }
+    const $block = $('<pre></pre>').append($code);
+
+    const $table = $pre.closest('td').closest('table');
+    if ($table.length && $table.find(LINE_NUMBER_SELECTORS).length && $.contains($root.get(0)!, $table.get(0)!)) {
+      $table.replaceWith($block);
+    } else {
+      $pre.replaceWith($block);
+    }
+  });
+}
@@ -0,0 +1,120 @@
+import { type ContentKind } from '../types/extractor';
+
+// 按扩展名推断的内容类型
+const EXTENSION_KINDS: Record<string, ContentKind> = {
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  log: 'text',
+  csv: 'text',
+  json: 'json',
+  xml: 'xml',
+  rss: 'xml',
+  atom: 'xml',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  avif: 'image',
+  bmp: 'image',
+  svg: 'image',
+  ico: 'image',
+  pdf: 'pdf',
+};
+
+// 按扩展名推断的 Content-Type,用于本地文件
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  xhtml: 'application/xhtml+xml',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  json: 'application/json',
+  xml: 'application/xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+/**
+ * 读取URL或路径的扩展名(小写,不含点)
+ */
+export function getExtension(url: string): string {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // 不是URL时按路径处理
+  }
+  const match = path.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * 从 Content-Type 中取出不含参数的MIME类型
+ */
+export function getMimeType(contentType: string | null | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * 根据扩展名推断 Content-Type
+ */
+export function contentTypeFromExtension(url: string): string | null {
+  return EXTENSION_MIME_TYPES[getExtension(url)] || null;
+}
+
+/**
+ * 根据 Content-Type 和扩展名判断内容类型
+ * 很多服务器把 Markdown 文件作为 text/plain 返回,或把所有文件作为 application/octet-stream 返回,此时参考扩展名
+ * @returns 内容类型,不支持时返回null
+ */
+export function detectContentKind(contentType: string | null | undefined, url: string): ContentKind | null {
+  const mimeType = getMimeType(contentType);
+  const byExtension = EXTENSION_KINDS[getExtension(url)];
+
+  if (!mimeType || mimeType === 'application/octet-stream') {
+    // 没有类型信息时默认按HTML处理
+    return byExtension || (mimeType ? null : 'html');
+  }
+  if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') {
+    return 'html';
+  }
+  if (mimeType === 'text/markdown' || mimeType === 'text/x-markdown') {
+    return 'markdown';
+  }
+  if (mimeType === 'application/json' || mimeType.endsWith('+json')) {
+    return 'json';
+  }
+  if (mimeType === 'application/xml' || mimeType === 'text/xml' || mimeType.endsWith('+xml')) {
+    return mimeType === 'image/svg+xml' ? 'image' : 'xml';
+  }
+  if (mimeType === 'application/pdf' || mimeType === 'application/x-pdf') {
+    return 'pdf';
+  }
+  if (mimeType.startsWith('image/')) {
+    return 'image';
+  }
+  if (mimeType.startsWith('text/')) {
+    return byExtension === 'markdown' ? 'markdown' : 'text';
+  }
+  return null;
+}
+
+/**
+ * 判断内容是否需要按文本解码(HTML、纯文本、Markdown、JSON、XML)
+ */
+export function isTextContent(contentType: string | null | undefined, url: string): boolean {
+  const kind = detectContentKind(contentType, url);
+  return kind !== null && kind !== 'image' && kind !== 'pdf';
+}
@@ -0,0 +1,104 @@
+// 在文档开头多少字节内查找 <meta> 声明的编码
+const META_SNIFF_BYTES = 1024;
+
+const DEFAULT_ENCODING = 'utf-8';
+
+// 字节顺序标记
+const BOMS: Array<[bytes: number[], encoding: string]> = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0xfe, 0xff], 'utf-16be'],
+  [[0xff, 0xfe], 'utf-16le'],
+];
+
+export interface DecodedHtml {
+  html: string;
+  // 实际使用的编码名称,如 utf-8、gbk、big5、shift_jis
+  encoding: string;
+}
+
+/**
+ * 将编码标签规范化为 TextDecoder 支持的编码名称
+ * gb2312 会被映射为 gbk,无法识别时返回null
+ */
+function normalizeEncoding(label: string | null | undefined): string | null {
+  if (!label) {
+    return null;
+  }
+  try {
+    return new TextDecoder(label.trim().toLowerCase()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从字节顺序标记中识别编码
+ */
+function sniffBom(bytes: Uint8Array): string | null {
+  for (const [bom, encoding] of BOMS) {
+    if (bom.every((byte, i) => bytes[i] === byte)) {
+      return encoding;
+    }
+  }
+  return null;
+}
+
+/**
+ * 从 Content-Type 头中读取 charset
+ */
+export function charsetFromContentType(contentType: string | null | undefined): string | null {
+  const match = contentType?.match(/charset\s*=\s*["']?([^"';\s]+)/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * 从文档开头的 <meta charset> 或 http-equiv Content-Type 中读取编码
+ */
+function sniffMeta(bytes: Uint8Array): string | null {
+  // 编码声明只包含ASCII字符,按 latin1 解码不会改变其内容
+  const head = Buffer.from(bytes.subarray(0, META_SNIFF_BYTES)).toString('latin1');
+  const metaTags = head.match(/<meta\b[^>]*>/gi) || [];
+
+  for (const tag of metaTags) {
+    const charset = tag.match(/\bcharset\s*=\s*["']?\s*([^"'\s/>;]+)/i);
+    if (charset) {
+      return charset[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * 识别HTML字节流的编码
+ * 优先级: BOM > Content-Type 中的 charset > <meta> 声明 > utf-8
+ * @param bytes 响应内容
+ * @param contentType 响应的 Content-Type 头
+ */
+export function detectEncoding(bytes: Uint8Array, contentType?: string | null): string {
+  const bom = sniffBom(bytes);
+  if (bom) {
+    return bom;
+  }
+
+  // 响应头中的编码按原样使用
+  const header = normalizeEncoding(charsetFromContentType(contentType));
+  if (header) {
+    return header;
+  }
+
+  // <meta> 中声明的 utf-16 只可能来自错误配置(能读出声明说明字节是ASCII兼容的),按HTML标准视为 utf-8
+  const meta = normalizeEncoding(sniffMeta(bytes));
+  if (!meta || meta.startsWith('utf-16')) {
+    return DEFAULT_ENCODING;
+  }
+  return meta;
+}
+
+/**
+ * 按识别出的编码解码HTML
+ */
+export function decodeHtml(bytes: Uint8Array, contentType?: string | null): DecodedHtml {
+  const encoding = detectEncoding(bytes, contentType);
+  const html = new TextDecoder(encoding).decode(bytes);
+  return { html, encoding };
+}
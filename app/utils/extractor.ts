@@ -40,6 +40,44 @@ export function calculateTextLength($: CheerioAPI, elem: CheerioNode): number {
   return $elem.text().trim().length;
 }
 
+/**
+ * 生成节点的CSS路径,遇到带id的祖先节点时停止
+ */
+export function getNodePath($: CheerioAPI, node: CheerioNode): string {
+  const parts: string[] = [];
+  let $current = $(asElement(node));
+  
+  while ($current.length) {
+    const elem = $current.get(0) as CheerioElement;
+    if (!elem.tagName) break;
+    
+    const tagName = elem.tagName.toLowerCase();
+    const id = $current.attr('id');
+    if (id) {
+      parts.unshift(`${tagName}#${id}`);
+      break;
+    }
+    
+    let part = tagName;
+    const className = ($current.attr('class') || '').trim().split(/\s+/)[0];
+    if (className) {
+      part += `.${className}`;
+    }
+    
+    // 同名兄弟节点需要加上序号
+    const $siblings = $current.parent().children(tagName);
+    if ($siblings.length > 1) {
+      part += `:nth-of-type(${$siblings.index(elem) + 1})`;
+    }
+    
+    parts.unshift(part);
+    if (tagName === 'body' || tagName === 'html') break;
+    $current = $current.parent();
+  }
+  
+  return parts.join(' > ');
+}
+
 export function isMediaNode(node: CheerioNode): boolean {
   return ['img', 'video', 'iframe', 'embed'].includes(node.tagName?.toLowerCase() || '');
 }
@@ -0,0 +1,187 @@
+import { load } from 'cheerio';
+import TurndownService from 'turndown';
+import { type MarkdownOptions } from '../types/extractor';
+import { flattenTableSpans, isSimpleTable, renderGfmTable } from './table';
+
+/**
+ * 转义HTML特殊字符
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 生成Markdown围栏代码块,围栏比代码中最长的连续反引号更长
+ * @param language 代码语言,为空时不加语言标记
+ */
+export function fencedCodeBlock(text: string, language: string = ''): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+/**
+ * 从HTML中提取纯文本
+ */
+export function extractText(html: string): string {
+  const $ = load(html);
+  
+  // 移除脚本和样式
+  $('script, style, link, meta').remove();
+
+  // 代码块先替换为占位符,避免换行和缩进在清理空白时丢失
+  const codeBlocks: string[] = [];
+  $('pre').each((_, elem) => {
+    const $elem = $(elem);
+    codeBlocks.push($elem.text().replace(/\n+$/, ''));
+    $elem.replaceWith(`\n\n\uE000${codeBlocks.length - 1}\uE000\n\n`);
+  });
+  
+  // 处理标题
+  $('h1, h2, h3, h4, h5, h6').each((_, elem) => {
+    const $elem = $(elem);
+    $elem.after('\n\n').before('\n\n');
+  });
+  
+  // 处理段落和换行
+  $('p, div').each((_, elem) => {
+    const $elem = $(elem);
+    const text = $elem.text().trim();
+    if (text) {
+      $elem.after('\n\n');
+    }
+  });
+  $('br').replaceWith('\n');
+  
+  // 处理列表
+  $('ul, ol').each((_, list) => {
+    const $list = $(list);
+    $list.before('\n\n');
+    $list.find('li').each((_, li) => {
+      const $li = $(li);
+      $li.before('• ').after('\n');
+    });
+    $list.after('\n');
+  });
+  
+  // 处理表格
+  $('table').each((_, table) => {
+    const $table = $(table);
+    $table.find('tr').each((_, tr) => {
+      const $tr = $(tr);
+      $tr.find('td, th').each((_, cell) => {
+        const $cell = $(cell);
+        $cell.after('\t');
+      });
+      $tr.after('\n');
+    });
+    $table.before('\n\n').after('\n\n');
+  });
+  
+  // 获取文本并清理
+  return $('body')
+    .text()
+    // 清理多余空白
+    .replace(/\s+/g, ' ')
+    // 清理多余换行
+    .replace(/\n\s*\n/g, '\n\n')
+    // 清理行首尾空白
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    // 还原代码块
+    .replace(/(\s*\uE000\d+\uE000)+\s*/g, (match: string) =>
+      `\n\n${[...match.matchAll(/\uE000(\d+)\uE000/g)].map(([, index]) => codeBlocks[Number(index)]).join('\n\n')}\n\n`)
+    // 清理首尾空白
+    .trim();
+}
+
+/**
+ * 将HTML转换为Markdown
+ * 没有合并单元格和嵌套表格的表格转换为GFM管道表格,其余表格保留HTML
+ * @param html HTML内容
+ * @param options 转换选项
+ */
+export function convertToMarkdown(html: string, options: MarkdownOptions = {}): string {
+  const { tables = 'gfm' } = options;
+
+  // flatten 模式先展开合并单元格,使更多表格可以转换为管道表格
+  if (tables === 'flatten') {
+    const $ = load(html, null, false);
+    flattenTableSpans($, $.root());
+    html = $.html();
+  }
+
+  const turndownService = new TurndownService({
+    headingStyle: 'atx',
+    hr: '---',
+    bulletListMarker: '-',
+    codeBlockStyle: 'fenced',
+    emDelimiter: '*'
+  });
+
+  // 配置转换规则
+  turndownService.addRule('strikethrough', {
+    filter: (node: Node) => {
+      const tagName = (node as HTMLElement).tagName?.toLowerCase();
+      return ['del', 's', 'strike'].includes(tagName);
+    },
+    replacement: (content: string): string => `~~${content}~~`
+  });
+
+  // 代码块输出为带语言标记的围栏代码块
+  turndownService.addRule('fencedCodeBlock', {
+    filter: (node: Node) => (node as HTMLElement).tagName?.toLowerCase() === 'pre',
+    replacement: (content: string, node: Node): string => {
+      const pre = node as HTMLElement;
+      const code = pre.querySelector('code');
+      const language = `${code?.className || ''} ${pre.className || ''}`.match(/language-(\S+)/)?.[1] || '';
+      const text = (pre.textContent || '').replace(/\n$/, '');
+      return `\n\n${fencedCodeBlock(text, language)}\n\n`;
+    }
+  });
+
+  // 简单表格转换为管道表格,单元格内容按Markdown转换以保留加粗、链接等格式
+  turndownService.addRule('gfmTable', {
+    filter: (node: Node) => tables !== 'html' &&
+      (node as HTMLElement).tagName?.toLowerCase() === 'table' &&
+      isSimpleTable(node as HTMLElement),
+    replacement: (content: string, node: Node): string =>
+      renderGfmTable(node as HTMLElement, cell => turndownService.turndown(cell.innerHTML))
+  });
+
+  // 其余表格保留HTML
+  turndownService.keep(['table', 'thead', 'tbody', 'tr', 'th', 'td']);
+  
+  // 保留数学公式和注释
+  turndownService.addRule('math', {
+    filter: (node: Node) => {
+      const tagName = (node as HTMLElement).tagName?.toLowerCase();
+      return ['math', 'semantics', 'annotation'].includes(tagName);
+    },
+    replacement: (content: string, node: Node): string => {
+      const element = node as HTMLElement;
+      return element.outerHTML;
+    }
+  });
+  
+  // 处理图片
+  turndownService.addRule('images', {
+    filter: 'img',
+    replacement: (content: string, node: Node): string => {
+      const img = node as HTMLElement;
+      const alt = img.getAttribute('alt') || '';
+      const src = img.getAttribute('src') || '';
+      const title = img.getAttribute('title');
+      return title
+        ? `![${alt}](${src} "${title}")`
+        : `![${alt}](${src})`;
+    }
+  });
+
+  return turndownService.turndown(html);
+}
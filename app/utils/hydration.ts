@@ -0,0 +1,178 @@
+import { load } from 'cheerio';
+import { type CheerioAPI } from '../types/cheerio';
+import { type HydrationCandidate } from '../types/extractor';
+import { escapeHtml } from './format';
+
+// 以 JSON 形式嵌入页面的状态脚本(Next.js、Nuxt 3、知乎)
+const STATE_SCRIPT_IDS = ['__NEXT_DATA__', '__NUXT_DATA__', 'js-initialData'];
+
+// 通过全局变量赋值嵌入页面的状态
+const STATE_GLOBALS = ['__NUXT__', '__INITIAL_STATE__', '__PRELOADED_STATE__', '__APOLLO_STATE__'];
+
+// 超过该长度的状态脚本不解析
+const MAX_STATE_LENGTH = 5 * 1024 * 1024;
+
+// 遍历状态对象的最大深度
+const MAX_DEPTH = 30;
+
+// 字段名中出现这些词时更可能是正文
+const CONTENT_KEY_PATTERN = /content|body|html|article|detail|richtext|text/i;
+
+// 常见的富文本标签,字符串中出现时视为HTML
+const RICH_TEXT_PATTERN = /<(p|br|h[1-6]|div|img|ul|ol|li|blockquote|pre|figure|table|section)[\s/>]/i;
+
+// 返回的候选数量
+const MAX_CANDIDATES = 5;
+
+/**
+ * 截取赋值语句右侧的对象字面量,按括号配对,忽略字符串中的括号
+ */
+function sliceObjectLiteral(script: string, start: number): string | null {
+  const open = script.indexOf('{', start);
+  if (open < 0 || /\S/.test(script.slice(start, open).replace(/^\s*=\s*/, ''))) {
+    return null;
+  }
+
+  let depth = 0;
+  let quote = '';
+  for (let i = open; i < script.length; i++) {
+    const char = script[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = '';
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return script.slice(open, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * 解析状态JSON,失败时返回undefined
+ * 很多站点序列化时会留下 undefined,先替换为 null 再解析
+ */
+function parseState(text: string): unknown {
+  if (!text || text.length > MAX_STATE_LENGTH) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      return JSON.parse(text.replace(/([:,[]\s*)undefined(?=\s*[,}\]])/g, '$1null'));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * 读取页面中的状态对象
+ * @returns 来源名称和解析后的对象
+ */
+function readStates($: CheerioAPI): { source: string; state: unknown }[] {
+  const states: { source: string; state: unknown }[] = [];
+
+  for (const id of STATE_SCRIPT_IDS) {
+    const state = parseState($(`script[id="${id}"]`).first().text().trim());
+    if (state !== undefined) {
+      states.push({ source: id, state });
+    }
+  }
+
+  $('script:not([src])').each((_, element) => {
+    const script = $(element).text();
+    for (const name of STATE_GLOBALS) {
+      const match = script.match(new RegExp(`(?:window\\.|self\\.|globalThis\\.)?${name}\\s*=`));
+      if (!match) {
+        continue;
+      }
+      // Nuxt 2 的 __NUXT__ 常是立即执行函数,不执行脚本就无法还原,这种情况跳过
+      const literal = sliceObjectLiteral(script, match.index! + match[0].length - 1);
+      const state = literal ? parseState(literal) : undefined;
+      if (state !== undefined) {
+        states.push({ source: name, state });
+      }
+    }
+  });
+
+  return states;
+}
+
+/**
+ * 将字段值转换为候选HTML
+ * 富文本直接使用,带字段名提示的长纯文本按空行拆分为段落
+ */
+function toCandidateHtml(key: string, value: string, minTextLength: number): { html: string; textLength: number } | null {
+  if (value.length < minTextLength) {
+    return null;
+  }
+
+  if (RICH_TEXT_PATTERN.test(value)) {
+    const $ = load(value, null, false);
+    $('script, style, noscript').remove();
+    const textLength = $.root().text().trim().length;
+    return textLength >= minTextLength ? { html: $.html(), textLength } : null;
+  }
+
+  // 纯文本只接受看起来是正文的字段,且需要有多个段落,避免把描述、摘要当作正文
+  const paragraphs = value.split(/\n+/).map(item => item.trim()).filter(Boolean);
+  if (!CONTENT_KEY_PATTERN.test(key) || paragraphs.length < 2) {
+    return null;
+  }
+  return {
+    html: paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join(''),
+    textLength: paragraphs.join('').length
+  };
+}
+
+/**
+ * 从页面的客户端状态中查找正文候选
+ * Next.js、Nuxt 等框架渲染的页面,正文常以JSON形式嵌入脚本,服务端HTML中只有空壳
+ * 在清理文档(移除脚本)之前读取,按正文长度排序返回
+ * @param $ 未经处理的原始文档
+ * @param minTextLength 候选正文的最小长度
+ */
+export function extractHydrationCandidates($: CheerioAPI, minTextLength: number): HydrationCandidate[] {
+  const candidates: HydrationCandidate[] = [];
+  const seen = new Set<string>();
+
+  const walk = (source: string, value: unknown, path: string[], depth: number) => {
+    if (depth > MAX_DEPTH || value === null) {
+      return;
+    }
+    if (typeof value === 'string') {
+      const key = path[path.length - 1] || '';
+      if (seen.has(value)) {
+        return;
+      }
+      const candidate = toCandidateHtml(key, value, minTextLength);
+      if (candidate) {
+        seen.add(value);
+        candidates.push({ source, path: path.join('.'), ...candidate });
+      }
+      return;
+    }
+    if (typeof value === 'object') {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        walk(source, child, [...path, key], depth + 1);
+      }
+    }
+  };
+
+  for (const { source, state } of readStates($)) {
+    walk(source, state, [], 0);
+  }
+
+  // 字段名像正文的候选优先,其次按正文长度
+  const rank = (candidate: HydrationCandidate) =>
+    candidate.textLength * (CONTENT_KEY_PATTERN.test(candidate.path.split('.').pop() || '') ? 1.5 : 1);
+  return candidates.sort((a, b) => rank(b) - rank(a)).slice(0, MAX_CANDIDATES);
+}
@@ -0,0 +1,44 @@
+/**
+ * 按最近使用顺序淘汰的缓存
+ * 利用 Map 保持插入顺序,每次访问都把条目移到末尾,超出容量时淘汰最早的条目
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  public get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  public set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public delete(key: K): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+}
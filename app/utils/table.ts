@@ -0,0 +1,154 @@
+import { type AnyNode, type Cheerio, type CheerioAPI, type CheerioElement } from '../types/cheerio';
+
+// 单元格内容转换为Markdown的函数
+type CellConverter = (cell: HTMLElement) => string;
+
+// 与浏览器一致的跨度上限
+const MAX_COLSPAN = 1000;
+const MAX_ROWSPAN = 65534;
+
+// 展开合并单元格后允许的最大列数,超过时保留原表格
+const MAX_GRID_COLUMNS = 1000;
+
+/**
+ * 读取合并单元格的跨度,无效值视为1,超过上限时按上限处理
+ * @param max 跨度上限,默认为 colspan 的上限
+ */
+function getSpan(value: string | null | undefined, max: number = MAX_COLSPAN): number {
+  const span = parseInt(value || '1', 10);
+  return Number.isFinite(span) && span > 1 ? Math.min(span, max) : 1;
+}
+
+/**
+ * 获取表格自身的行,不包括嵌套表格中的行
+ */
+function getOwnRows(table: HTMLElement): HTMLElement[] {
+  return Array.from(table.querySelectorAll('tr')).filter(row => {
+    let parent = row.parentNode as HTMLElement | null;
+    while (parent && parent.nodeName !== 'TABLE') {
+      parent = parent.parentNode as HTMLElement | null;
+    }
+    return parent === table;
+  }) as HTMLElement[];
+}
+
+/**
+ * 获取行中的单元格
+ */
+function getCells(row: HTMLElement): HTMLElement[] {
+  return Array.from(row.children).filter(cell => cell.nodeName === 'TH' || cell.nodeName === 'TD') as HTMLElement[];
+}
+
+/**
+ * 判断表格能否表示为GFM表格: 没有嵌套表格和合并单元格,表头最多一行
+ */
+export function isSimpleTable(table: HTMLElement): boolean {
+  if (table.querySelector('table')) {
+    return false;
+  }
+  const rows = getOwnRows(table);
+  const headerRows = rows.filter(row => row.parentNode?.nodeName === 'THEAD');
+  return rows.length > 0 && headerRows.length <= 1 && rows.every(row => getCells(row).every(cell =>
+    getSpan(cell.getAttribute('rowspan')) === 1 && getSpan(cell.getAttribute('colspan')) === 1
+  ));
+}
+
+/**
+ * 读取单元格的对齐方式
+ */
+function getAlignment(cell: HTMLElement | undefined): string {
+  const align = (cell?.getAttribute('align') || cell?.getAttribute('style')?.match(/text-align:\s*(\w+)/i)?.[1] || '').toLowerCase();
+  switch (align) {
+    case 'left':
+      return ':---';
+    case 'center':
+      return ':---:';
+    case 'right':
+      return '---:';
+    default:
+      return '---';
+  }
+}
+
+/**
+ * 将简单表格转换为GFM管道表格
+ * 第一行作为表头,单元格中的换行改为 <br>,竖线转义
+ * @param table 表格元素
+ * @param convertCell 将单元格内容转换为Markdown(保留加粗、链接、行内代码等格式)
+ */
+export function renderGfmTable(table: HTMLElement, convertCell: CellConverter): string {
+  const rows = getOwnRows(table).map(getCells);
+  const width = Math.max(...rows.map(cells => cells.length));
+
+  const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const lines = rows.map(cells => {
+    const values = cells.map(cell => convertCell(cell)
+      .trim()
+      .replace(/\s*\n+\s*/g, '<br>')
+      .replace(/\|/g, '\\|'));
+    while (values.length < width) {
+      values.push('');
+    }
+    return formatRow(values);
+  });
+
+  const separator = formatRow(Array.from({ length: width }, (_, index) => getAlignment(rows[0][index])));
+  lines.splice(1, 0, separator);
+
+  const caption = table.querySelector('caption')?.textContent?.trim();
+  return `\n\n${caption ? `${caption}\n\n` : ''}${lines.join('\n')}\n\n`;
+}
+
+/**
+ * 展开合并单元格: 被合并的每个位置都复制一份单元格内容,使表格成为规则的网格
+ * 嵌套表格不处理
+ * @param $ 文档
+ * @param $root 需要处理的范围
+ */
+export function flattenTableSpans($: CheerioAPI, $root: Cheerio<AnyNode>): void {
+  $root.find('table').each((_, table) => {
+    const $table = $(table);
+    if ($table.find('table').length || !$table.find('[rowspan], [colspan]').length) {
+      return;
+    }
+
+    const $rows = $table.find('tr');
+    // grid[行][列] 为该位置对应的单元格
+    const grid: CheerioElement[][] = $rows.toArray().map(() => []);
+    let tooWide = false;
+
+    $rows.each((rowIndex, row) => {
+      let column = 0;
+      $(row).children('th, td').each((__, cell) => {
+        while (grid[rowIndex][column]) {
+          column++;
+        }
+        const rowSpan = Math.min(getSpan($(cell).attr('rowspan'), MAX_ROWSPAN), $rows.length - rowIndex);
+        const colSpan = getSpan($(cell).attr('colspan'));
+        if (column + colSpan > MAX_GRID_COLUMNS) {
+          tooWide = true;
+          return false;
+        }
+        for (let r = 0; r < rowSpan; r++) {
+          for (let c = 0; c < colSpan; c++) {
+            grid[rowIndex + r][column + c] = cell;
+          }
+        }
+        column += colSpan;
+      });
+      return !tooWide;
+    });
+
+    if (tooWide) {
+      return;
+    }
+
+    $rows.each((rowIndex, row) => {
+      const cells = Array.from(grid[rowIndex], cell => {
+        const $cell = cell ? $(cell).clone() : $('<td></td>');
+        return $cell.removeAttr('rowspan').removeAttr('colspan');
+      });
+      $(row).empty().append(...cells);
+    });
+  });
+}
@@ -0,0 +1,119 @@
+import { type CheerioAPI, type CheerioElement, type Cheerio } from '../types/cheerio';
+
+// 需要转换为绝对地址的属性
+const URL_ATTRIBUTES: Array<[selector: string, attr: string]> = [
+  ['a[href]', 'href'],
+  ['img[src]', 'src'],
+  ['video[src]', 'src'],
+  ['video[poster]', 'poster'],
+  ['audio[src]', 'src'],
+  ['source[src]', 'src'],
+  ['track[src]', 'src'],
+  ['iframe[src]', 'src'],
+  ['embed[src]', 'src'],
+];
+
+// 需要转换的 srcset 属性
+const SRCSET_SELECTORS = ['img[srcset]', 'source[srcset]'];
+
+/**
+ * 判断主机名是否匹配模式
+ * "*.example.com" 同时匹配 example.com 及其所有子域名
+ */
+export function matchHost(pattern: string, hostname: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized.startsWith('*.')) {
+    const domain = normalized.slice(2);
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  }
+  return hostname === normalized;
+}
+
+/**
+ * 取URL或路径的文件名,用于没有标题的文档
+ */
+export function getFileName(url: string): string {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // 不是URL时按路径处理
+  }
+  const name = path.split('/').filter(Boolean).pop() || '';
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * 将相对地址转换为绝对地址
+ * 锚点、javascript: 和 data: 等地址保持不变,无法解析时返回原值
+ */
+export function resolveUrl(value: string, baseUrl: string): string {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.startsWith('#') || /^(javascript|data|mailto|tel|about|blob):/i.test(trimmed)) {
+    return value;
+  }
+
+  try {
+    return new URL(trimmed, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * 转换 srcset 中的每个地址,保留宽度或像素密度描述符
+ */
+export function resolveSrcset(value: string, baseUrl: string): string {
+  return value
+    .split(',')
+    .map(candidate => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      if (!url) return '';
+      return [resolveUrl(url, baseUrl), ...descriptors].join(' ');
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * 获取文档的基准地址
+ * 优先使用 <base href>(相对于页面地址解析),否则使用页面地址
+ */
+export function getBaseUrl($: CheerioAPI, pageUrl: string): string {
+  const baseHref = $('base[href]').first().attr('href');
+  if (baseHref) {
+    try {
+      return new URL(baseHref, pageUrl || undefined).href;
+    } catch {
+      // base 地址无效时使用页面地址
+    }
+  }
+  return pageUrl;
+}
+
+/**
+ * 将元素内所有链接、图片和媒体地址转换为绝对地址
+ */
+export function absolutizeUrls($: CheerioAPI, $elem: Cheerio<CheerioElement>, baseUrl: string): void {
+  if (!baseUrl) {
+    return;
+  }
+
+  for (const [selector, attr] of URL_ATTRIBUTES) {
+    $elem.find(selector).each((_: number, node: CheerioElement) => {
+      const $node = $(node);
+      $node.attr(attr, resolveUrl($node.attr(attr) || '', baseUrl));
+    });
+  }
+
+  for (const selector of SRCSET_SELECTORS) {
+    $elem.find(selector).each((_: number, node: CheerioElement) => {
+      const $node = $(node);
+      $node.attr('srcset', resolveSrcset($node.attr('srcset') || '', baseUrl));
+    });
+  }
+}
@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // 这些包依赖Node运行时,不参与打包
+    serverComponentsExternalPackages: ['jsdom', 'pdfjs-dist'],
+  },
   webpack: (config, { isServer }) => {
     if (isServer) {
       config.externals.push({